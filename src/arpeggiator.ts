@@ -0,0 +1,105 @@
+import { LookaheadClock, NoteOutput, calculateStepLength } from "./clock";
+import { ArpeggiatorOrder, ArpeggiatorSettings } from "./types";
+
+/** Plays held keys one note at a time, at the tempo. */
+export class Arpeggiator {
+    private output: NoteOutput;
+    private clock: LookaheadClock;
+    private keys: number[];     // arpeggiated keys, in the order they were pressed
+    private held: number;       // number of keys held down
+    private velocity: number;   // velocity of the latest key press
+    private stopTime: number;   // time when all keys were released
+
+    /** Arpeggiator settings. */
+    settings: ArpeggiatorSettings;
+    /** Tempo in BPM. */
+    tempo: number;
+
+    constructor(audioCtx: BaseAudioContext, output: NoteOutput, settings: ArpeggiatorSettings, tempo: number) {
+        this.output = output;
+        this.clock = new LookaheadClock(audioCtx, (time, step) => this.step(time, step));
+        this.keys = [];
+        this.held = 0;
+        this.velocity = 1;
+        this.stopTime = Infinity;
+        this.settings = settings;
+        this.tempo = tempo;
+    }
+
+    /** Update the held keys. Starts at the first key press and stops when the keys are released, unless latched.
+     *
+     * @param keys Held keys, in the order they were pressed
+     * @param velocity Velocity of the latest key press (0-1), undefined for key releases
+     * @param when Time of the change, in the time coordinate of the audio context
+     */
+    setKeys(keys: readonly number[], velocity: number | undefined, when: number) {
+        if (velocity !== undefined) {
+            this.velocity = velocity;
+        }
+        if (this.settings.latch) {
+            if (keys.length > 0) {
+                // New keys after a full release replace the latched keys
+                if (this.held === 0) {
+                    this.keys = [];
+                }
+                for (const key of keys) {
+                    if (!this.keys.includes(key)) {
+                        this.keys.push(key);
+                    }
+                }
+            }
+        } else {
+            this.keys = [...keys];
+        }
+        this.held = keys.length;
+        if (this.keys.length > 0) {
+            this.stopTime = Infinity;
+            if (!this.clock.running) {
+                this.clock.start(when);
+            }
+        } else {
+            this.stopTime = when;
+        }
+    }
+
+    /** Stop playing and forget latched keys. */
+    reset() {
+        this.keys = [];
+        this.held = 0;
+        this.clock.stop();
+    }
+
+    // Notes of one cycle of the pattern
+    private sequence(): number[] {
+        const keys = this.settings.order === ArpeggiatorOrder.AsPlayed ? this.keys : [...this.keys].sort((a, b) => a - b);
+        const notes = [];
+        for (let octave = 0; octave < this.settings.octaves; octave++) {
+            for (const key of keys) {
+                notes.push(key + 12 * octave);
+            }
+        }
+        switch (this.settings.order) {
+            case ArpeggiatorOrder.Down:
+                return notes.reverse();
+            case ArpeggiatorOrder.UpDown:
+                return notes.concat(notes.slice(1, -1).reverse());
+            default:
+                return notes;
+        }
+    }
+
+    private step(time: number, step: number): number {
+        if (time >= this.stopTime || !this.settings.on) {
+            this.clock.stop();
+            return 0;
+        }
+        const length = calculateStepLength(this.settings.division, this.tempo, this.settings.swing, step);
+        const notes = this.sequence();
+        if (notes.length > 0) {
+            const index = this.settings.order === ArpeggiatorOrder.Random ? Math.floor(Math.random() * notes.length) : step % notes.length;
+            this.output.noteOn(notes[index], this.velocity, time);
+            this.output.noteOff(notes[index], time + length * this.settings.gate);
+        }
+        return length;
+    }
+}
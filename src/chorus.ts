@@ -1,62 +1,152 @@
+import { ChorusMode, EffectParameters } from "./types";
+
+// modulated delay line
+interface ChorusLine {
+    lfo: OscillatorNode;
+    depth: GainNode;            // LFO to delay time
+    delay: DelayNode;
+    feedback: GainNode;
+    panner?: StereoPannerNode;  // ensemble lines, fed by both channels
+}
+
 export class Chorus {
-    private maxDelay = 0.01;
-    private delayDepth = 0.004;
-    private minDelay = 0.0015;
-    private delayRateMode0 = 0.5;
-    private delayRateMode1 = 0.8;
-    private filterFrequency = 10000;
-
-    private audioCtx: AudioContext;
+    private maxDelay = 0.03;
+    // LFO rate in Hz, delay sweep (+-) and centre delay in seconds of each mode
+    private modes = [
+        { rate: 0.5, depth: 0.002, delay: 0.0025 },     // I
+        { rate: 0.8, depth: 0.002, delay: 0.0025 },     // II
+        { rate: 8, depth: 0.0004, delay: 0.0024 },      // I+II, fast and shallow
+        { rate: 0.2, depth: 0.002, delay: 0.0022 },     // Flanger
+        { rate: 0.6, depth: 0.0015, delay: 0.0055 }     // Ensemble
+    ];
+    private toneFrequency = 10000;  // lowpass at tone 0.5
+
+    private audioCtx: BaseAudioContext;
     private splitter: ChannelSplitterNode;
+    private mono: GainNode;
     private merger: ChannelMergerNode;
-    private lfo: OscillatorNode;
-    private lfoFilter: BiquadFilterNode;
-    private lfoGainLeft: GainNode;
-    private lfoGainRight: GainNode;
-    private delayLeft: DelayNode;
-    private delayRight: DelayNode;
+    private lines: ChorusLine[];
     private filter: BiquadFilterNode;
     private _gain: GainNode;
-    private mode: 0 | 1 = 0;
+    private mode: ChorusMode = ChorusMode.I;
+    private rate = 1;       // relative to the mode
+    private depth = 1;      // relative to the mode
+    private delay = 1;      // relative to the mode
+    private feedback = 0;
+    private feedbackConnected = false;
+    private spread = 1;     // 0-1
+    private tone = 0.5;     // 0-1
 
-    constructor(audioCtx: AudioContext) {
+    constructor(audioCtx: BaseAudioContext) {
         this.audioCtx = audioCtx;
         this.splitter = audioCtx.createChannelSplitter(2);
+        this.mono = audioCtx.createGain();
+        this.mono.gain.value = 0.5;
         this.merger = audioCtx.createChannelMerger(2);
-        this.delayLeft = audioCtx.createDelay(this.maxDelay);
-        this.delayRight = audioCtx.createDelay(this.maxDelay);
-        this.lfoGainLeft = audioCtx.createGain();
-        this.lfoGainRight = audioCtx.createGain();
         this.filter = audioCtx.createBiquadFilter();
         this._gain = audioCtx.createGain();
         this._gain.gain.value = 0;
 
         this.filter.type = 'lowpass';
-        this.filter.frequency.value = this.filterFrequency;
+        this.filter.frequency.value = this.toneFrequency;
         this.filter.Q.value = -6;
-        this.lfoFilter = audioCtx.createBiquadFilter();
-        this.lfoFilter.type = 'lowpass';
-        this.lfoFilter.Q.value = -6;
-        this.lfoFilter.connect(this.lfoGainLeft);
-        this.lfoFilter.connect(this.lfoGainRight);
-        this.lfo = audioCtx.createOscillator();
-        this.setMode(0);
-        this.lfo.type = 'triangle';
-        this.lfo.connect(this.lfoFilter);
-        this.lfo.start();
-        this.lfoGainLeft.gain.value = this.delayDepth / 2;
-        this.lfoGainRight.gain.value = -this.delayDepth / 2;
-        this.delayLeft.delayTime.value = this.delayDepth / 4 + this.minDelay;
-        this.delayRight.delayTime.value = this.delayDepth / 4 + this.minDelay;
-        this.lfoGainLeft.connect(this.delayLeft.delayTime);
-        this.lfoGainRight.connect(this.delayRight.delayTime);
-
-        this.splitter.connect(this.delayLeft, 0);
-        this.splitter.connect(this.delayRight, 1);
-        this.delayLeft.connect(this.merger, 0, 0);
-        this.delayRight.connect(this.merger, 0, 1);
+        this.splitter.connect(this.mono, 0);
+        this.splitter.connect(this.mono, 1);
         this.merger.connect(this.filter);
         this.filter.connect(this._gain);
+        this.lines = [];
+        this.setMode(ChorusMode.I);
+    }
+
+    // Two lines modulated in opposite phase for the stereo modes, three lines in three phases for the ensemble
+    private createLines() {
+        const ensemble = this.mode === ChorusMode.Ensemble;
+        const count = ensemble ? 3 : 2;
+        for (let i = 0; i < count; i++) {
+            const lfo = this.audioCtx.createOscillator();
+            const depth = this.audioCtx.createGain();
+            const delay = this.audioCtx.createDelay(this.maxDelay);
+            const feedback = this.audioCtx.createGain();
+            lfo.connect(depth);
+            depth.connect(delay.delayTime);
+            delay.connect(feedback);
+            const line: ChorusLine = { lfo, depth, delay, feedback };
+            if (ensemble) {
+                line.panner = this.audioCtx.createStereoPanner();
+                this.mono.connect(delay);
+                delay.connect(line.panner);
+                line.panner.connect(this.filter);
+            } else {
+                this.splitter.connect(delay, i);
+                delay.connect(this.merger, 0, i);
+            }
+            lfo.start();
+            this.lines.push(line);
+        }
+    }
+
+    private stopLines() {
+        for (const line of this.lines) {
+            line.lfo.stop();
+            line.lfo.disconnect();
+            line.depth.disconnect();
+            line.delay.disconnect();
+            line.feedback.disconnect();
+            line.panner?.disconnect();
+        }
+        this.splitter.disconnect();
+        this.mono.disconnect();
+        this.splitter.connect(this.mono, 0);
+        this.splitter.connect(this.mono, 1);
+        this.lines = [];
+        this.feedbackConnected = false;
+    }
+
+    // Close the feedback loops only when used, Web Audio delays in a loop by at least 128 samples
+    private connectFeedback(connected: boolean) {
+        if (connected === this.feedbackConnected) return;
+        for (const line of this.lines) {
+            if (connected) {
+                line.feedback.connect(line.delay);
+            } else {
+                line.feedback.disconnect();
+            }
+        }
+        this.feedbackConnected = connected;
+    }
+
+    // Band-limited triangle or sine LFO, starting at a phase in cycles
+    private createLFOWave(sine: boolean, phase: number): PeriodicWave {
+        const harmonics = sine ? 1 : 15;
+        const real = new Float32Array(harmonics + 1);
+        const imag = new Float32Array(harmonics + 1);
+        for (let k = 1; k <= harmonics; k += 2) {
+            const amplitude = sine ? 1 : 8 / (Math.PI * Math.PI * k * k) * (k % 4 === 1 ? 1 : -1);
+            real[k] = amplitude * Math.sin(2 * Math.PI * k * phase);
+            imag[k] = amplitude * Math.cos(2 * Math.PI * k * phase);
+        }
+        return this.audioCtx.createPeriodicWave(real, imag, { disableNormalization: true });
+    }
+
+    // Apply the parameters to the lines
+    private update(when: number) {
+        const { rate, depth, delay } = this.modes[this.mode];
+        const sweep = depth * this.depth;
+        // Keep the sweep above the shortest delay of a feedback loop
+        const minDelay = this.feedback > 0 ? 128 / this.audioCtx.sampleRate + sweep : 0;
+        const centre = Math.min(Math.max(delay * this.delay, minDelay), this.maxDelay);
+        const ensemble = this.mode === ChorusMode.Ensemble;
+        this.connectFeedback(this.feedback > 0);
+        this.lines.forEach((line, i) => {
+            const phase = ensemble ? i / 3 : i * this.spread / 2;
+            line.lfo.setPeriodicWave(this.createLFOWave(ensemble, phase));
+            line.lfo.frequency.setValueAtTime(rate * this.rate, when);
+            line.depth.gain.setValueAtTime(sweep, when);
+            line.delay.delayTime.setValueAtTime(centre, when);
+            line.feedback.gain.setValueAtTime(this.feedback, when);
+            line.panner?.pan.setValueAtTime((i - 1) * this.spread, when);
+        });
+        this.filter.frequency.setValueAtTime(this.toneFrequency * Math.pow(8, 2 * this.tone - 1), when);
     }
 
     disconnect() {
@@ -64,15 +154,10 @@ export class Chorus {
     }
 
     stop() {
+        this.stopLines();
         this.splitter.disconnect();
+        this.mono.disconnect();
         this.merger.disconnect();
-        this.lfo.stop();
-        this.lfo.disconnect();
-        this.lfoFilter.disconnect();
-        this.lfoGainLeft.disconnect();
-        this.lfoGainRight.disconnect();
-        this.delayLeft.disconnect();
-        this.delayRight.disconnect();
         this.filter.disconnect();
         this._gain.disconnect();
     }
@@ -89,21 +174,31 @@ export class Chorus {
         return this._gain.gain;
     }
 
-    setMode(mode: 0 | 1) {
-        if (mode === 0) {
-            this.lfo.frequency.setValueAtTime(this.delayRateMode0, this.audioCtx.currentTime);
-            this.lfoFilter.frequency.setValueAtTime(this.delayRateMode0 * 20, this.audioCtx.currentTime);
-        } else if (mode === 1) {
-            this.lfo.frequency.setValueAtTime(this.delayRateMode1, this.audioCtx.currentTime);
-            this.lfoFilter.frequency.setValueAtTime(this.delayRateMode1 * 20, this.audioCtx.currentTime);
-        }
-        else {
+    setMode(mode: ChorusMode) {
+        if (this.modes[mode] === undefined) {
             throw new Error('Invalid mode');
         }
+        this.stopLines();
         this.mode = mode;
+        this.createLines();
+        this.update(this.audioCtx.currentTime);
     }
 
-    getMode(): 0 | 1 {
+    getMode(): ChorusMode {
         return this.mode;
     }
+
+    setParameters(parameters: EffectParameters, when: number) {
+        this._gain.gain.setValueAtTime(parameters.amount as number, when);
+        this.rate = parameters.rate as number;
+        this.depth = parameters.depth as number;
+        this.delay = parameters.delay as number;
+        this.feedback = parameters.feedback as number;
+        this.spread = parameters.spread as number;
+        this.tone = parameters.tone as number;
+        if (parameters.mode !== this.mode) {
+            this.setMode(parameters.mode as ChorusMode);
+        }
+        this.update(when);
+    }
 }
@@ -0,0 +1,82 @@
+/** Receives the notes played by a pattern. */
+export interface NoteOutput {
+    noteOn(noteNumber: number, velocity: number, when: number): void;
+    noteOff(noteNumber: number, when: number): void;
+}
+
+/** Calculate the length of a step, with every second step delayed by swing.
+ *
+ * @param division Step length as a fraction of a whole note
+ * @param tempo Tempo in BPM
+ * @param swing Delay of every second step (0-1), 1 is half a step
+ * @param step Step index
+ * @returns Step length in seconds
+ */
+export function calculateStepLength(division: number, tempo: number, swing: number, step: number): number {
+    const length = 240 * division / tempo;
+    const delay = swing * length / 2;
+    return step % 2 === 0 ? length + delay : length - delay;
+}
+
+/** Schedules steps ahead of time on the audio timeline.
+ *
+ * A timer wakes up regularly and schedules all steps starting before the lookahead horizon,
+ * so that timer jitter does not affect the timing. Requires a running audio context.
+ */
+export class LookaheadClock {
+    private audioCtx: BaseAudioContext;
+    private callback: (time: number, step: number) => number;
+    private timer?: ReturnType<typeof setInterval>;
+    private nextTime: number;   // start time of the next step
+    private step: number;       // index of the next step
+
+    /** How far ahead to schedule, in seconds. */
+    lookahead: number;
+    /** Timer interval in milliseconds. */
+    interval: number;
+
+    /**
+     * @param audioCtx Context providing the timeline
+     * @param callback Schedules a step at a time, returns the step length in seconds
+     */
+    constructor(audioCtx: BaseAudioContext, callback: (time: number, step: number) => number) {
+        this.audioCtx = audioCtx;
+        this.callback = callback;
+        this.nextTime = 0;
+        this.step = 0;
+        this.lookahead = 0.1;
+        this.interval = 25;
+    }
+
+    /** Whether the clock is running. */
+    get running(): boolean {
+        return this.timer !== undefined;
+    }
+
+    /** Start counting steps from zero.
+     *
+     * @param when Time of the first step, in the time coordinate of the audio context. Defaults to now.
+     */
+    start(when: number = this.audioCtx.currentTime) {
+        this.stop();
+        this.nextTime = Math.max(when, this.audioCtx.currentTime);
+        this.step = 0;
+        this.timer = setInterval(() => this.tick(), this.interval);
+        this.tick();
+    }
+
+    /** Stop scheduling steps. Steps already scheduled still play. */
+    stop() {
+        if (this.timer !== undefined) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private tick() {
+        // The callback may stop the clock
+        while (this.running && this.nextTime < this.audioCtx.currentTime + this.lookahead) {
+            this.nextTime += this.callback(this.nextTime, this.step++);
+        }
+    }
+}
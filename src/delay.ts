@@ -0,0 +1,152 @@
+import { EffectParameters } from "./types";
+
+export class Delay {
+    private maxDelay = 5;
+    private maxDampingFrequency = 20000;
+    private minDampingFrequency = 200;
+
+    private audioCtx: BaseAudioContext;
+    private splitter: ChannelSplitterNode;
+    private merger: ChannelMergerNode;
+    private mono: GainNode;
+    private delayLeft: DelayNode;
+    private delayRight: DelayNode;
+    private dampingLeft: BiquadFilterNode;
+    private dampingRight: BiquadFilterNode;
+    private feedbackLeft: GainNode;
+    private feedbackRight: GainNode;
+    private _gain: GainNode;
+    private pingPong = false;
+    private time = 0.375;       // seconds, when not synced
+    private sync = false;
+    private division = 3 / 16;  // whole notes, when synced
+    private tempo = 120;        // BPM
+
+    constructor(audioCtx: BaseAudioContext) {
+        this.audioCtx = audioCtx;
+        this.splitter = audioCtx.createChannelSplitter(2);
+        this.merger = audioCtx.createChannelMerger(2);
+        this.mono = audioCtx.createGain();
+        this.mono.gain.value = 0.5;
+        this.delayLeft = audioCtx.createDelay(this.maxDelay);
+        this.delayRight = audioCtx.createDelay(this.maxDelay);
+        this.dampingLeft = audioCtx.createBiquadFilter();
+        this.dampingRight = audioCtx.createBiquadFilter();
+        this.feedbackLeft = audioCtx.createGain();
+        this.feedbackRight = audioCtx.createGain();
+        this._gain = audioCtx.createGain();
+        this._gain.gain.value = 0;
+
+        for (const damping of [this.dampingLeft, this.dampingRight]) {
+            damping.type = 'lowpass';
+            damping.frequency.value = this.maxDampingFrequency;
+            damping.Q.value = -6;
+        }
+        this.updateTime(audioCtx.currentTime);
+        this.setFeedback(0.3);
+        this.setDamping(0.3);
+        this.delayLeft.connect(this.dampingLeft);
+        this.delayRight.connect(this.dampingRight);
+        this.dampingLeft.connect(this.feedbackLeft);
+        this.dampingRight.connect(this.feedbackRight);
+        this.dampingLeft.connect(this.merger, 0, 0);
+        this.dampingRight.connect(this.merger, 0, 1);
+        this.merger.connect(this._gain);
+        this.connectFeedback();
+    }
+
+    // Stereo delays feed back into themselves, ping-pong delays into each other from a mono input
+    private connectFeedback() {
+        if (this.pingPong) {
+            this.splitter.connect(this.mono, 0);
+            this.splitter.connect(this.mono, 1);
+            this.mono.connect(this.delayLeft);
+            this.feedbackLeft.connect(this.delayRight);
+            this.feedbackRight.connect(this.delayLeft);
+        } else {
+            this.splitter.connect(this.delayLeft, 0);
+            this.splitter.connect(this.delayRight, 1);
+            this.feedbackLeft.connect(this.delayLeft);
+            this.feedbackRight.connect(this.delayRight);
+        }
+    }
+
+    disconnect() {
+        this._gain.disconnect();
+    }
+
+    stop() {
+        this.splitter.disconnect();
+        this.merger.disconnect();
+        this.mono.disconnect();
+        this.delayLeft.disconnect();
+        this.delayRight.disconnect();
+        this.dampingLeft.disconnect();
+        this.dampingRight.disconnect();
+        this.feedbackLeft.disconnect();
+        this.feedbackRight.disconnect();
+        this._gain.disconnect();
+    }
+
+    connect(output: AudioNode) {
+        this._gain.connect(output);
+    }
+
+    get input(): AudioNode {
+        return this.splitter;
+    }
+
+    get gain(): AudioParam {
+        return this._gain.gain;
+    }
+
+    // Delay time from the time or the tempo, limited to 5 seconds
+    private updateTime(when: number) {
+        const delayTime = Math.min(this.sync ? 240 * this.division / this.tempo : this.time, this.maxDelay);
+        this.delayLeft.delayTime.setValueAtTime(delayTime, when);
+        this.delayRight.delayTime.setValueAtTime(delayTime, when);
+    }
+
+    /** Set the feedback (0-1), the level of each repeat. */
+    setFeedback(feedback: number, when: number = this.audioCtx.currentTime) {
+        this.feedbackLeft.gain.setValueAtTime(feedback, when);
+        this.feedbackRight.gain.setValueAtTime(feedback, when);
+    }
+
+    /** Set the damping (0-1), darkening each repeat from 20 kHz to 200 Hz. */
+    setDamping(damping: number, when: number = this.audioCtx.currentTime) {
+        const frequency = this.maxDampingFrequency * Math.pow(this.minDampingFrequency / this.maxDampingFrequency, damping);
+        this.dampingLeft.frequency.setValueAtTime(frequency, when);
+        this.dampingRight.frequency.setValueAtTime(frequency, when);
+    }
+
+    setPingPong(pingPong: boolean) {
+        if (pingPong === this.pingPong) return;
+        this.splitter.disconnect();
+        this.mono.disconnect();
+        this.feedbackLeft.disconnect();
+        this.feedbackRight.disconnect();
+        this.pingPong = pingPong;
+        this.connectFeedback();
+    }
+
+    getPingPong(): boolean {
+        return this.pingPong;
+    }
+
+    setParameters(parameters: EffectParameters, when: number) {
+        this._gain.gain.setValueAtTime(parameters.mix as number, when);
+        this.time = parameters.time as number;
+        this.sync = parameters.sync as boolean;
+        this.division = parameters.division as number;
+        this.updateTime(when);
+        this.setFeedback(parameters.feedback as number, when);
+        this.setDamping(parameters.damping as number, when);
+        this.setPingPong(parameters.pingPong as boolean);
+    }
+
+    setTempo(tempo: number, when: number) {
+        this.tempo = tempo;
+        this.updateTime(when);
+    }
+}
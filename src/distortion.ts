@@ -0,0 +1,189 @@
+import { distortionSample } from "./dsp";
+import { DistortionCurve, EffectParameters } from "./types";
+import { loadProcessor } from "./worklet";
+
+/** Name of the downsampler processor. */
+export const downsamplerProcessorName = "synth-downsampler";
+
+/** AudioWorklet processor code of the downsampler.
+ *
+ * Holds each sample of the input for `factor` samples, fractional factors alternate between hold lengths.
+ * Post any message to stop the processor.
+ */
+export const downsamplerProcessorCode = `
+class DownsamplerProcessor extends AudioWorkletProcessor {
+    static get parameterDescriptors() {
+        return [
+            { name: "factor", defaultValue: 1, minValue: 1, automationRate: "k-rate" }
+        ];
+    }
+
+    constructor() {
+        super();
+        this.counter = 0;   // samples until the next held sample
+        this.held = [0, 0];
+        this.running = true;
+        this.port.onmessage = () => {
+            this.running = false;
+        };
+    }
+
+    process(inputs, outputs, parameters) {
+        const input = inputs[0];
+        const output = outputs[0];
+        const factor = parameters.factor[0];
+        for (let i = 0; i < output[0].length; i++) {
+            if (this.counter <= 0) {
+                this.counter += factor;
+                for (let channel = 0; channel < output.length; channel++) {
+                    const samples = input[channel] ?? input[0];
+                    this.held[channel] = samples ? samples[i] : 0;
+                }
+            }
+            this.counter--;
+            for (let channel = 0; channel < output.length; channel++) {
+                output[channel][i] = this.held[channel];
+            }
+        }
+        return this.running;
+    }
+}
+
+registerProcessor("${downsamplerProcessorName}", DownsamplerProcessor);
+`;
+
+/** Insert effect with a drive curve, bit reduction, downsampling and a tone filter. */
+export class Distortion {
+    private curveLength = 8193;
+    private maxToneFrequency = 20000;
+    private minToneFrequency = 200;
+
+    private audioCtx: BaseAudioContext;
+    private _input: GainNode;
+    private dry: GainNode;
+    private shaper: WaveShaperNode;
+    private downsampler?: AudioWorkletNode;  // inserted after the shaper once loaded
+    private factor?: AudioParam;            // downsampling factor
+    private dcBlocker: BiquadFilterNode;
+    private tone: BiquadFilterNode;
+    private wet: GainNode;
+    private _gain: GainNode;
+    private curve = DistortionCurve.SoftClip;
+    private drive = 0.5;
+    private bits = 16;
+    private downsample = 1;
+    private stopped = false;
+
+    readonly insert = true;
+
+    constructor(audioCtx: BaseAudioContext) {
+        this.audioCtx = audioCtx;
+        this._input = audioCtx.createGain();
+        this.dry = audioCtx.createGain();
+        this.dry.gain.value = 0;
+        this.shaper = new WaveShaperNode(audioCtx, { oversample: "4x" });
+        this.dcBlocker = audioCtx.createBiquadFilter();
+        this.tone = audioCtx.createBiquadFilter();
+        this.wet = audioCtx.createGain();
+        this._gain = audioCtx.createGain();
+
+        this.dcBlocker.type = 'highpass';
+        this.dcBlocker.frequency.value = 10;
+        this.dcBlocker.Q.value = -6;
+        this.tone.type = 'lowpass';
+        this.tone.frequency.value = this.maxToneFrequency;
+        this.tone.Q.value = -6;
+        this.updateCurve();
+        this._input.connect(this.dry);
+        this._input.connect(this.shaper);
+        this.shaper.connect(this.dcBlocker);
+        this.dcBlocker.connect(this.tone);
+        this.tone.connect(this.wet);
+        this.dry.connect(this._gain);
+        this.wet.connect(this._gain);
+    }
+
+    // Sample the curve with the drive gain and bit reduction
+    private updateCurve() {
+        const curve = new Float32Array(this.curveLength);
+        const gain = Math.pow(100, this.drive);
+        for (let i = 0; i < curve.length; i++) {
+            curve[i] = distortionSample(this.curve, gain, this.bits, 2 * i / (curve.length - 1) - 1);
+        }
+        this.shaper.curve = curve;
+    }
+
+    // The processor is loaded on first use, downsampling starts when it is available
+    private setDownsample(factor: number, when: number) {
+        this.downsample = factor;
+        if (this.downsampler) {
+            this.factor!.setValueAtTime(factor, when);
+        } else if (factor > 1) {
+            loadProcessor(this.audioCtx, downsamplerProcessorCode).then(loaded => {
+                if (!loaded || this.stopped || this.downsampler) return;
+                this.downsampler = new AudioWorkletNode(this.audioCtx, downsamplerProcessorName, { numberOfInputs: 1, numberOfOutputs: 1, outputChannelCount: [2] });
+                // AudioParamMap is only typed as a map with dom.iterable
+                this.factor = (this.downsampler.parameters as unknown as ReadonlyMap<string, AudioParam>).get("factor")!;
+                this.factor.value = this.downsample;
+                this.shaper.disconnect();
+                this.shaper.connect(this.downsampler);
+                this.downsampler.connect(this.dcBlocker);
+            });
+        }
+    }
+
+    disconnect() {
+        this._gain.disconnect();
+    }
+
+    stop() {
+        this.stopped = true;
+        this._input.disconnect();
+        this.dry.disconnect();
+        this.shaper.disconnect();
+        if (this.downsampler) {
+            this.downsampler.port.postMessage("stop");
+            this.downsampler.disconnect();
+        }
+        this.dcBlocker.disconnect();
+        this.tone.disconnect();
+        this.wet.disconnect();
+        this._gain.disconnect();
+    }
+
+    connect(output: AudioNode) {
+        this._gain.connect(output);
+    }
+
+    get input(): AudioNode {
+        return this._input;
+    }
+
+    get gain(): AudioParam {
+        return this._gain.gain;
+    }
+
+    /** Set the transfer curve, the drive (0-1) and the bit depth (1-16). Regenerates the curve. */
+    setCurve(curve: DistortionCurve, drive: number, bits: number) {
+        if (curve === this.curve && drive === this.drive && bits === this.bits) return;
+        this.curve = curve;
+        this.drive = drive;
+        this.bits = bits;
+        this.updateCurve();
+    }
+
+    /** Set the tone (0-1), brightening the distorted signal from 200 Hz to 20 kHz. */
+    setTone(tone: number, when: number = this.audioCtx.currentTime) {
+        const frequency = this.minToneFrequency * Math.pow(this.maxToneFrequency / this.minToneFrequency, tone);
+        this.tone.frequency.setValueAtTime(frequency, when);
+    }
+
+    setParameters(parameters: EffectParameters, when: number) {
+        const mix = parameters.mix as number;
+        this.dry.gain.setValueAtTime(1 - mix, when);
+        this.wet.gain.setValueAtTime(mix, when);
+        this.setCurve(parameters.curve as DistortionCurve, parameters.drive as number, parameters.bits as number);
+        this.setDownsample(parameters.downsample as number, when);
+        this.setTone(parameters.tone as number, when);
+    }
+}
@@ -0,0 +1,918 @@
+import type { ADSR, DistortionParameters, EngineEvent, LFOSettings, Preset, WavetableFrame } from "./types";
+
+// The DSP core of the worklet engine. It runs in the AudioWorkletGlobalScope, loaded from the source
+// of the functions and classes listed in dspSource, so they may only reference each other and
+// compare enums by value. Has no Web Audio dependencies and renders in Node as well.
+
+type OscillatorPreset = Preset["oscillators"][number];
+
+// State of one oscillator of a note
+interface EngineOscillator {
+    index: number;              // oscillator index in the preset
+    settings: OscillatorPreset; // settings at note on, for removed oscillators
+    waveform: number;           // Waveform, custom waveforms without frames play a sine
+    tables?: Float32Array[];    // wavetable frames
+    fm: boolean;                // FM from the first oscillator
+    ring: boolean;              // ring modulation by the first oscillator
+    sync: boolean;              // hard sync to the first oscillator
+    phases: number[];           // phase of each unison voice, 0-1
+    detunes: number[];          // unison detune of each voice, in cents
+    drifts: DriftGenerator[];   // random pitch drift of each voice
+    pans: number[];             // unison pan of each voice, -1-1
+    // Control values
+    frequency: number;          // Hz, without detune
+    fmIndex: number;            // frequency deviation per modulator frequency
+    duty: number;               // pulse width of square waves
+    weights: number[];          // crossfade gain of each wavetable frame
+    ratios: number[];           // detune multiplier of each voice
+    increments: number[];       // phase step per sample of each voice, without FM
+    left: number[];             // left gain of each voice
+    right: number[];            // right gain of each voice
+}
+
+/** Calculate the envelope curve at a given time.
+ *
+ * @param time Time, normalized to 0-1
+ * @param shape Curve shape, 0 is linear, positive is exponential, negative is logarithmic
+ */
+function envelopeCurve(time: number, shape: number): number {
+    if (Math.abs(shape) < 1e-6) return time;
+    return (Math.exp(shape * time) - 1) / (Math.exp(shape) - 1);
+}
+
+// Start phase of an oscillator voice at a frequency, by PhaseMode
+function startPhase(mode: number, frequency: number, time: number, random: () => number): number {
+    switch (mode) {
+        case 1: // Free, as if running since time zero
+            return (frequency * time) % 1;
+        case 2: // Reset
+            return 0;
+        default: // Random
+            return random();
+    }
+}
+
+// PolyBLEP correction of an upward jump of 2 at phase 0
+function polyBLEP(phase: number, increment: number): number {
+    if (phase < increment) {
+        const t = phase / increment;
+        return t + t - t * t - 1;
+    }
+    if (phase > 1 - increment) {
+        const t = (phase - 1) / increment;
+        return t * t + t + t + 1;
+    }
+    return 0;
+}
+
+// Band-limited sample of a basic waveform, with the phase step per sample
+function oscillatorSample(waveform: number, phase: number, increment: number, duty: number): number {
+    const dt = Math.min(Math.abs(increment), 0.5);
+    switch (waveform) {
+        case 0: // Sawtooth, falling like the PeriodicWave of the node engine
+            return 1 - 2 * phase + polyBLEP(phase, dt);
+        case 1: // Square
+            return (phase < duty ? 1 : -1) + polyBLEP(phase, dt) - polyBLEP((phase - duty + 1) % 1, dt);
+        case 2: // Sine
+            return Math.sin(2 * Math.PI * phase);
+        default: // Triangle
+            return phase < 0.25 ? 4 * phase : phase < 0.75 ? 2 - 4 * phase : 4 * phase - 4;
+    }
+}
+
+function lfoSample(waveform: number, phase: number, hold: number): number {
+    switch (waveform) {
+        case 0: // Sine
+            return Math.sin(2 * Math.PI * phase);
+        case 1: // Triangle
+            return phase < 0.25 ? 4 * phase : phase < 0.75 ? 2 - 4 * phase : 4 * phase - 4;
+        case 2: // Sawtooth, rising from zero like OscillatorNode
+            return phase < 0.5 ? 2 * phase : 2 * phase - 2;
+        case 3: // Square
+            return phase < 0.5 ? 1 : -1;
+        default: // Sample and hold
+            return hold;
+    }
+}
+
+function lfoFrequency(settings: LFOSettings, tempo: number): number {
+    return settings.sync ? tempo / (240 * settings.division) : settings.frequency;
+}
+
+// One cycle of a wavetable frame, without DC and normalized to a peak of 1 like a PeriodicWave
+function createWavetable(frame: WavetableFrame): Float32Array {
+    const size = 2048;
+    const table = new Float32Array(size);
+    if ("harmonics" in frame) {
+        const harmonics = Math.min(frame.harmonics.length, 255);
+        for (let k = 1; k <= harmonics; k++) {
+            const amplitude = frame.harmonics[k - 1];
+            const phase = (frame.phases?.[k - 1] ?? 0) * 2 * Math.PI;
+            if (amplitude === 0) continue;
+            for (let i = 0; i < size; i++) {
+                table[i] += amplitude * Math.sin(2 * Math.PI * k * i / size + phase);
+            }
+        }
+    } else {
+        // Resample the cycle with linear interpolation
+        const samples = frame.samples;
+        let mean = 0;
+        for (const sample of samples) {
+            mean += sample / samples.length;
+        }
+        for (let i = 0; i < size; i++) {
+            const position = i * samples.length / size;
+            const index = Math.floor(position);
+            const fraction = position - index;
+            table[i] = samples[index] + (samples[(index + 1) % samples.length] - samples[index]) * fraction - mean;
+        }
+    }
+    let peak = 0;
+    for (let i = 0; i < size; i++) {
+        peak = Math.max(peak, Math.abs(table[i]));
+    }
+    for (let i = 0; i < size && peak > 0; i++) {
+        table[i] /= peak;
+    }
+    return table;
+}
+
+function wavetableSample(table: Float32Array, phase: number): number {
+    const position = phase * table.length;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    return table[index % table.length] + (table[(index + 1) % table.length] - table[index % table.length]) * fraction;
+}
+
+// Filter quality factor, lowpass and highpass resonance is in dB like BiquadFilterNode
+function resonanceToQuality(resonance: number, modulation: number, type: number): number {
+    if (type === 2 || type === 3) { // Bandpass, Notch
+        return Math.max(0.5 + resonance * 20 + modulation, 0.05);
+    }
+    return Math.pow(10, (-6 + resonance * 26 + modulation) / 20);
+}
+
+/** Distort a sample with a drive gain and a DistortionCurve, then reduce it to a number of bits.
+ * Shared with the node engine, which samples it into WaveShaperNode curves.
+ */
+export function distortionSample(curve: number, gain: number, bits: number, x: number): number {
+    x *= gain;
+    let y: number;
+    switch (curve) {
+        case 1: y = Math.min(Math.max(x, -1), 1); break;            // Hard clip
+        case 2: y = x >= 0 ? 1 - Math.exp(-x) : Math.tanh(x); break; // Tube
+        case 3: {                                                   // Foldback, a triangle through full scale
+            const t = (x - 1) / 4;
+            y = 4 * Math.abs(t - Math.floor(t) - 0.5) - 1;
+            break;
+        }
+        default: y = Math.tanh(x);                                  // Soft clip
+    }
+    if (bits < 16) {
+        const levels = Math.pow(2, bits - 1);
+        y = Math.round(y * levels) / levels;
+    }
+    return y;
+}
+
+/** ADSR envelope, advanced in steps of time. */
+class EnvelopeGenerator {
+    /** Current value. */
+    value: number;
+    private settings: ADSR;
+    private peak: number;
+    private time: number;           // seconds since the start, or since the release
+    private releaseValue?: number;  // value at the release
+
+    constructor(settings: ADSR, peak: number) {
+        this.settings = { ...settings };
+        this.peak = peak;
+        this.time = 0;
+        this.value = settings.attack > 0 ? 0 : peak;
+    }
+
+    /** Whether the release phase has ended. */
+    get done(): boolean {
+        return this.releaseValue !== undefined && this.time >= this.settings.release;
+    }
+
+    /** Start the release phase from the current value. */
+    release(settings: ADSR) {
+        this.settings = { ...settings };
+        this.releaseValue = this.value;
+        this.time = 0;
+    }
+
+    /** Return the current value and advance the time. */
+    advance(step: number): number {
+        const { attack, decay, sustain, release } = this.settings;
+        if (this.releaseValue !== undefined) {
+            this.value = this.time >= release ? 0 : this.releaseValue * (1 - envelopeCurve(this.time / release, this.settings.releaseShape));
+        } else if (this.time < attack) {
+            this.value = this.peak * envelopeCurve(this.time / attack, this.settings.attackShape);
+        } else if (this.time < attack + decay) {
+            this.value = this.peak + (this.peak * sustain - this.peak) * envelopeCurve((this.time - attack) / decay, this.settings.decayShape);
+        } else {
+            this.value = this.peak * sustain;
+        }
+        this.time += step;
+        return this.value;
+    }
+}
+
+/** Slow random curve between -1 and 1, cosine interpolated between random points like the node engine. */
+class DriftGenerator {
+    private random: () => number;
+    private previous: number;
+    private next: number;
+    private position: number;   // 0-1 from the previous to the next point
+
+    constructor(random: () => number) {
+        this.random = random;
+        this.previous = random() * 2 - 1;
+        this.next = random() * 2 - 1;
+        this.position = random();
+    }
+
+    /** Return the current value and advance the time. */
+    advance(step: number): number {
+        const value = this.previous + (this.next - this.previous) * (1 - Math.cos(Math.PI * this.position)) / 2;
+        // Points every half second
+        this.position += step / 0.5;
+        if (this.position >= 1) {
+            this.position -= Math.floor(this.position);
+            this.previous = this.next;
+            this.next = this.random() * 2 - 1;
+        }
+        return value;
+    }
+}
+
+/** State variable filter, 12 dB/oct, in the topology-preserving transform form. */
+class StateVariableFilter {
+    private type = 0;   // FilterType
+    private k = 1;      // damping, inverse of the quality factor
+    private a1 = 0;
+    private a2 = 0;
+    private a3 = 0;
+    private ic1 = 0;    // integrator states
+    private ic2 = 0;
+
+    setup(type: number, frequency: number, quality: number, sampleRate: number) {
+        const g = Math.tan(Math.PI * Math.min(frequency, sampleRate * 0.49) / sampleRate);
+        this.type = type;
+        this.k = 1 / quality;
+        this.a1 = 1 / (1 + g * (g + this.k));
+        this.a2 = g * this.a1;
+        this.a3 = g * this.a2;
+    }
+
+    process(x: number): number {
+        const v3 = x - this.ic2;
+        const v1 = this.a1 * this.ic1 + this.a2 * v3;
+        const v2 = this.ic2 + this.a2 * this.ic1 + this.a3 * v3;
+        this.ic1 = 2 * v1 - this.ic1;
+        this.ic2 = 2 * v2 - this.ic2;
+        switch (this.type) {
+            case 0: return v2;                      // Lowpass
+            case 1: return x - this.k * v1 - v2;    // Highpass
+            case 2: return this.k * v1;             // Bandpass, unity gain at the center
+            default: return x - this.k * v1;        // Notch
+        }
+    }
+}
+
+/** Distortion of one channel, with sample and hold downsampling, a DC blocker and a tone lowpass. */
+class Waveshaper {
+    private counter = 0;    // samples until the next held sample
+    private held = 0;
+    private dcInput = 0;    // previous input of the DC blocker
+    private dcOutput = 0;
+    private tone = 0;       // lowpass state
+
+    process(x: number, settings: DistortionParameters, gain: number, dcCoefficient: number, toneCoefficient: number): number {
+        if (this.counter <= 0) {
+            this.counter += settings.downsample;
+            this.held = distortionSample(settings.curve, gain, settings.bits, x);
+        }
+        this.counter--;
+        this.dcOutput = this.held - this.dcInput + dcCoefficient * this.dcOutput;
+        this.dcInput = this.held;
+        this.tone += (1 - toneCoefficient) * (this.dcOutput - this.tone);
+        return x + settings.mix * (this.tone - x);
+    }
+}
+
+/** A note of the worklet engine, rendering its oscillators, filter and envelopes. */
+class EngineNote {
+    noteNumber: number;
+    startTime: number;          // engine time of the note on
+    released: boolean;
+    stolen: boolean;            // fading out to free its voice
+    private engine: SynthEngine;
+    private velocity: number;   // after the velocity curve
+    private amplitudePeak: number;
+    private filterPeak: number;
+    private oscillators: EngineOscillator[];
+    private subPhase: number;
+    private pink: number[];     // pink noise filter state
+    private masterPhase: number; // phase at the first oscillator pitch, for hard sync
+    private amplitude: EnvelopeGenerator;
+    private filterEnvelope: EnvelopeGenerator;
+    private filters: StateVariableFilter[]; // two stages for each channel
+    private shapers: Waveshaper[]; // distortion of each channel
+    private lfoPhases: number[]; // retriggered LFOs
+    private lfoHolds: number[];
+    private age: number;        // seconds since note on
+    private glide: { from: number, keyboard: number, start: number, duration: number } | undefined;
+    private fade: number;       // gain of a stolen note
+    // Control values
+    private masterIncrement = 0;
+    private subIncrement = 0;
+    private subLeft = 0;
+    private subRight = 0;
+    private noiseGain = 0;
+    private gain = 1;           // amplitude modulation
+
+    constructor(engine: SynthEngine, noteNumber: number, velocity: number, previousNoteNumber: number | undefined) {
+        const preset = engine.preset;
+        this.engine = engine;
+        this.noteNumber = noteNumber;
+        this.startTime = engine.time;
+        this.released = false;
+        this.stolen = false;
+        switch (preset.velocity.curve) {
+            case 1: velocity = Math.sqrt(velocity); break; // Soft
+            case 2: velocity = velocity * velocity; break; // Hard
+        }
+        this.velocity = velocity;
+        this.amplitudePeak = 1 - preset.velocity.amplitude + preset.velocity.amplitude * velocity;
+        this.filterPeak = 1 - preset.velocity.filter + preset.velocity.filter * velocity;
+        this.amplitude = new EnvelopeGenerator(preset.envelopes.amplitude, this.amplitudePeak);
+        this.filterEnvelope = new EnvelopeGenerator(preset.envelopes.filter, this.filterPeak);
+        this.filters = [new StateVariableFilter(), new StateVariableFilter(), new StateVariableFilter(), new StateVariableFilter()];
+        this.shapers = [new Waveshaper(), new Waveshaper()];
+        const modulator = preset.oscillators[0].on;
+        this.oscillators = [];
+        preset.oscillators.forEach((settings, index) => {
+            if (!settings.on) return;
+            const tables = settings.waveform === 4 && engine.tables[index].length > 0 ? engine.tables[index] : undefined;
+            const unison = settings.unison;
+            const phases = [];
+            const detunes = [];
+            const drifts = [];
+            const pans = [];
+            for (let i = 0; i < unison; i++) {
+                // Asymmetric detune, like the node engine
+                const position = unison > 1 ? i / unison * 2 - 1 : 0;
+                const detune = (position > 0 ? Math.pow(position, 1.22) * 0.9 : -Math.pow(-position, 1.2)) * settings.detune;
+                const frequency = engine.frequencies[noteNumber] * Math.pow(2, (settings.semitones + (settings.fine + detune) / 100) / 12);
+                phases.push(startPhase(preset.phase, frequency, engine.time, engine.random));
+                detunes.push(detune);
+                drifts.push(new DriftGenerator(engine.random));
+                pans.push(unison > 1 ? i / (unison - 1) * 2 - 1 : 0);
+            }
+            this.oscillators.push({
+                index,
+                settings,
+                waveform: settings.waveform === 4 && !tables ? 2 : settings.waveform,
+                tables,
+                fm: index > 0 && modulator,
+                ring: index > 0 && modulator && settings.ring,
+                sync: index > 0 && settings.sync && settings.waveform !== 4,
+                phases,
+                detunes,
+                drifts,
+                pans,
+                frequency: 0,
+                fmIndex: 0,
+                duty: 0.5,
+                weights: tables ? tables.map(() => 0) : [],
+                ratios: phases.map(() => 1),
+                increments: phases.map(() => 0),
+                left: phases.map(() => 0),
+                right: phases.map(() => 0)
+            });
+        });
+        this.subPhase = startPhase(preset.phase, engine.frequencies[noteNumber] * Math.pow(2, -preset.sub.octave), engine.time, engine.random);
+        this.pink = [0, 0, 0, 0, 0, 0, 0];
+        this.masterPhase = 0;
+        this.lfoPhases = preset.lfos.map(() => 0);
+        this.lfoHolds = preset.lfos.map(() => engine.random() * 2 - 1);
+        this.age = 0;
+        this.fade = 1;
+        if (previousNoteNumber !== undefined && preset.glide > 0) {
+            const from = engine.frequencies[previousNoteNumber];
+            const keyboard = (previousNoteNumber - 60) / 12 * Math.log(2) / Math.log(1000);
+            this.glide = { from, keyboard, start: 0, duration: preset.glide };
+        }
+    }
+
+    /** Whether the note has ended. */
+    get done(): boolean {
+        return this.amplitude.done || this.fade <= 0;
+    }
+
+    /** Current amplitude. */
+    get level(): number {
+        return this.amplitude.value * this.fade;
+    }
+
+    /** Start the release phase. */
+    release() {
+        this.released = true;
+        this.amplitude.release(this.engine.preset.envelopes.amplitude);
+        this.filterEnvelope.release(this.engine.preset.envelopes.filter);
+    }
+
+    /** Fade out quickly to free the voice. */
+    steal() {
+        this.released = true;
+        this.stolen = true;
+    }
+
+    /** Continue with another note number, gliding from the current pitch. */
+    legato(noteNumber: number) {
+        const from = this.noteFrequency();
+        const keyboard = this.keyboard();
+        const glide = this.engine.preset.glide;
+        this.noteNumber = noteNumber;
+        this.glide = glide > 0 ? { from, keyboard, start: this.age, duration: glide } : undefined;
+    }
+
+    // Note pitch in Hz, without pitch bend
+    private noteFrequency(): number {
+        const target = this.engine.frequencies[this.noteNumber];
+        if (this.glide && this.age < this.glide.start + this.glide.duration) {
+            const progress = (this.age - this.glide.start) / this.glide.duration;
+            return this.glide.from * Math.pow(target / this.glide.from, progress);
+        }
+        return target;
+    }
+
+    // Keyboard tracking filter value, pivot at middle C
+    private keyboard(): number {
+        const target = (this.noteNumber - 60) / 12 * Math.log(2) / Math.log(1000);
+        if (this.glide && this.age < this.glide.start + this.glide.duration) {
+            const progress = (this.age - this.glide.start) / this.glide.duration;
+            return this.glide.keyboard + (target - this.glide.keyboard) * progress;
+        }
+        return target;
+    }
+
+    // Update the control values at the start of a block
+    private control(length: number) {
+        const engine = this.engine;
+        const preset = engine.preset;
+        const sampleRate = engine.sampleRate;
+
+        // LFOs, the first LFO adds the controller vibrato
+        const lfos = [0, 0];
+        let pitch = 0;
+        let cutoff = 0;
+        let level = 0;
+        let pan = 0;
+        for (let i = 0; i < preset.lfos.length && i < 2; i++) {
+            const settings = preset.lfos[i];
+            const fade = settings.delay > 0 ? Math.min(this.age / settings.delay, 1) : 1;
+            if (settings.retrigger) {
+                lfos[i] = lfoSample(settings.waveform, this.lfoPhases[i], this.lfoHolds[i]) * fade;
+                this.lfoPhases[i] += lfoFrequency(settings, preset.tempo) * length / sampleRate;
+                if (this.lfoPhases[i] >= 1) {
+                    this.lfoPhases[i] -= Math.floor(this.lfoPhases[i]);
+                    this.lfoHolds[i] = engine.random() * 2 - 1;
+                }
+            } else {
+                lfos[i] = engine.lfoValues[i] * fade;
+            }
+            let depth = settings.pitch;
+            if (i === 0) {
+                depth = Math.min(depth + engine.modWheel * preset.modWheel.pitch + engine.aftertouch * preset.aftertouch.pitch, 1);
+            }
+            pitch += lfos[i] * depth * 1200;
+            cutoff += lfos[i] * settings.cutoff;
+            level += lfos[i] * settings.level;
+            pan += lfos[i] * settings.pan;
+        }
+
+        // Modulation matrix, by ModulationSource and ModulationDestination
+        const sources = [
+            lfos[0],
+            this.amplitude.value / this.amplitudePeak,
+            this.filterEnvelope.value / this.filterPeak,
+            this.velocity,
+            (this.noteNumber - 60) / 64,
+            engine.modWheel,
+            engine.aftertouch,
+            lfos[1]
+        ];
+        const scales = [1200, 1, 1, 1, 26, 1, 1, 1];
+        const destinations = [0, 0, 0, 0, 0, 0, 0, 0];
+        for (const slot of preset.modulation) {
+            destinations[slot.destination] += slot.amount * scales[slot.destination] * sources[slot.source];
+        }
+        pitch += destinations[0];
+        level += destinations[1];
+        cutoff += destinations[3];
+        pan += destinations[5];
+        this.gain = 1 + destinations[6];
+
+        // Oscillators
+        const frequency = this.noteFrequency() * engine.bend;
+        const pitchRatio = Math.pow(2, pitch / 1200);
+        for (const oscillator of this.oscillators) {
+            const settings = preset.oscillators[oscillator.index] ?? oscillator.settings;
+            oscillator.frequency = frequency * Math.pow(2, (settings.semitones + settings.fine / 100) / 12);
+            oscillator.fmIndex = settings.fm * 8;
+            oscillator.duty = 0.5 - Math.min(Math.max(settings.pwm + destinations[2], 0), 1) * 0.49;
+            const gain = Math.pow(10, settings.volume / 20) * (0.3 + 0.7 / Math.sqrt(Math.max(oscillator.phases.length - 1, 1))) + level;
+            for (let i = 0; i < oscillator.phases.length; i++) {
+                const drift = oscillator.drifts[i].advance(length / sampleRate) * preset.drift;
+                oscillator.ratios[i] = Math.pow(2, (oscillator.detunes[i] + drift) / 1200) * pitchRatio;
+                oscillator.increments[i] = oscillator.frequency * oscillator.ratios[i] / sampleRate;
+                const x = (Math.min(Math.max(oscillator.pans[i] + pan, -1), 1) + 1) / 2;
+                oscillator.left[i] = Math.cos(x * Math.PI / 2) * gain;
+                oscillator.right[i] = Math.sin(x * Math.PI / 2) * gain;
+            }
+            if (oscillator.tables) {
+                const position = Math.min(Math.max(settings.position + destinations[7], 0), 1) * (oscillator.tables.length - 1);
+                for (let frame = 0; frame < oscillator.tables.length; frame++) {
+                    oscillator.weights[frame] = Math.max(0, 1 - Math.abs(position - frame));
+                }
+            }
+        }
+        const first = preset.oscillators[0];
+        this.masterIncrement = frequency * Math.pow(2, (first.semitones + first.fine / 100) / 12) * pitchRatio / sampleRate;
+        this.subIncrement = frequency * Math.pow(2, -preset.sub.octave) * pitchRatio / sampleRate;
+        const subGain = Math.pow(10, preset.sub.volume / 20) + level;
+        const x = (Math.min(Math.max(pan, -1), 1) + 1) / 2;
+        this.subLeft = Math.cos(x * Math.PI / 2) * subGain;
+        this.subRight = Math.sin(x * Math.PI / 2) * subGain;
+        this.noiseGain = Math.pow(10, preset.noise.volume / 20);
+
+        // Filter, the envelope also scales keyboard tracking like the node engine
+        const filter = preset.filter;
+        const envelope = this.filterEnvelope.advance(length / sampleRate);
+        const value = filter.cutoff + engine.controllerCutoff + envelope * (filter.envelope + filter.keyboard * this.keyboard()) + cutoff;
+        const cutoffFrequency = 20 * Math.pow(1000, Math.min(Math.max(value, -1), 1));
+        const quality = resonanceToQuality(filter.resonance, destinations[4], filter.type);
+        for (const stage of this.filters) {
+            stage.setup(filter.type, cutoffFrequency, quality, sampleRate);
+        }
+    }
+
+    /** Add the note to the output, from sample start to end. */
+    render(left: Float32Array, right: Float32Array, start: number, end: number) {
+        const engine = this.engine;
+        const preset = engine.preset;
+        const step = 1 / engine.sampleRate;
+        this.control(end - start);
+        const sub = preset.sub.on;
+        const noise = preset.noise.on;
+        const pink = preset.noise.type === 1;
+        const cascade = preset.filter.slope === 24;
+        // Distortion before the filter, like the node engine
+        const distortion = preset.fx.noteDistortion;
+        const drive = Math.pow(100, distortion.drive);
+        const dcCoefficient = 1 - 2 * Math.PI * 10 * step;
+        const toneCoefficient = Math.exp(-2 * Math.PI * 200 * Math.pow(100, distortion.tone) * step);
+        const fadeStep = step / 0.005;
+        const firstFrequency = this.oscillators.length > 0 && this.oscillators[0].index === 0 ? this.oscillators[0].frequency : 0;
+        for (let i = start; i < end; i++) {
+            const envelope = this.amplitude.advance(step);
+            // Restart synced oscillators when the master phase wraps
+            this.masterPhase += this.masterIncrement;
+            let sync = -1;  // samples since the restart
+            if (this.masterPhase >= 1) {
+                this.masterPhase -= Math.floor(this.masterPhase);
+                sync = this.masterIncrement > 0 ? this.masterPhase / this.masterIncrement : 0;
+            }
+            let l = 0;
+            let r = 0;
+            let modulator = 0;  // first voice of the first oscillator
+            for (const oscillator of this.oscillators) {
+                const deviation = oscillator.fm ? oscillator.fmIndex * firstFrequency * modulator : 0;
+                let oscillatorLeft = 0;
+                let oscillatorRight = 0;
+                for (let v = 0; v < oscillator.phases.length; v++) {
+                    const increment = oscillator.increments[v] + deviation * oscillator.ratios[v] * step;
+                    const phase = oscillator.phases[v];
+                    let value = 0;
+                    if (oscillator.tables) {
+                        for (let frame = 0; frame < oscillator.tables.length; frame++) {
+                            if (oscillator.weights[frame] > 0) {
+                                value += oscillator.weights[frame] * wavetableSample(oscillator.tables[frame], phase);
+                            }
+                        }
+                    } else {
+                        value = oscillatorSample(oscillator.waveform, phase, increment, oscillator.duty);
+                    }
+                    if (oscillator.index === 0 && v === 0) {
+                        modulator = value;
+                    }
+                    oscillatorLeft += value * oscillator.left[v];
+                    oscillatorRight += value * oscillator.right[v];
+                    let next = oscillator.sync && sync >= 0 ? sync * increment : phase + increment;
+                    if (next >= 1 || next < 0) {
+                        next -= Math.floor(next);
+                    }
+                    oscillator.phases[v] = next;
+                }
+                if (oscillator.ring) {
+                    oscillatorLeft *= modulator;
+                    oscillatorRight *= modulator;
+                }
+                l += oscillatorLeft;
+                r += oscillatorRight;
+            }
+            if (sub) {
+                const value = oscillatorSample(preset.sub.waveform, this.subPhase, this.subIncrement, 0.5);
+                l += value * this.subLeft;
+                r += value * this.subRight;
+                this.subPhase += this.subIncrement;
+                if (this.subPhase >= 1) {
+                    this.subPhase -= Math.floor(this.subPhase);
+                }
+            }
+            if (noise) {
+                const white = engine.random() * 2 - 1;
+                let value = white;
+                if (pink) {
+                    // Paul Kellett's refined method, like the node engine
+                    const b = this.pink;
+                    b[0] = 0.99886 * b[0] + white * 0.0555179;
+                    b[1] = 0.99332 * b[1] + white * 0.0750759;
+                    b[2] = 0.96900 * b[2] + white * 0.1538520;
+                    b[3] = 0.86650 * b[3] + white * 0.3104856;
+                    b[4] = 0.55000 * b[4] + white * 0.5329522;
+                    b[5] = -0.7616 * b[5] - white * 0.0168980;
+                    value = (b[0] + b[1] + b[2] + b[3] + b[4] + b[5] + b[6] + white * 0.5362) * 0.11;
+                    b[6] = white * 0.115926;
+                }
+                l += value * this.noiseGain;
+                r += value * this.noiseGain;
+            }
+            l *= envelope;
+            r *= envelope;
+            if (distortion.on) {
+                l = this.shapers[0].process(l, distortion, drive, dcCoefficient, toneCoefficient);
+                r = this.shapers[1].process(r, distortion, drive, dcCoefficient, toneCoefficient);
+            }
+            l = this.filters[0].process(l);
+            r = this.filters[2].process(r);
+            if (cascade) {
+                l = this.filters[1].process(l);
+                r = this.filters[3].process(r);
+            }
+            if (this.stolen) {
+                this.fade = Math.max(this.fade - fadeStep, 0);
+            }
+            left[i] += l * this.gain * this.fade;
+            right[i] += r * this.gain * this.fade;
+        }
+        this.age += (end - start) * step;
+    }
+}
+
+/** Renders all notes of a synth from a preset and timed events, one block of samples at a time.
+ *
+ * Follows the preset semantics of the node-based Synth. Key handling, pedals and patterns stay in the
+ * Synth, which sends the resulting notes. Effects and the master output are not included.
+ */
+export class SynthEngine {
+    /** Sample rate in Hz. */
+    readonly sampleRate: number;
+    /** Current settings. */
+    preset: Preset;
+    /** Frames of the custom wavetable of each oscillator. */
+    tables: Float32Array[][];
+    /** Frequency of each MIDI note, NaN for unmapped notes. */
+    frequencies: number[];
+    /** Engine time of the next sample, in seconds. */
+    time: number;
+    /** Pitch bend multiplier, smoothed. */
+    bend: number;
+    /** Mod wheel (0-1), smoothed. */
+    modWheel: number;
+    /** Aftertouch (0-1), smoothed. */
+    aftertouch: number;
+    /** Cutoff offset from the controllers. */
+    controllerCutoff: number;
+    /** Current value of the free-running LFOs. */
+    lfoValues: number[];
+    /** Random number generator, 0-1. */
+    random: () => number;
+    private notes: EngineNote[];
+    private events: EngineEvent[];      // pending events, by time
+    private targets: { bend: number, modWheel: number, aftertouch: number };
+    private lfoPhases: number[];
+    private lfoHolds: number[];
+    private previousNoteNumber?: number; // for glide
+    private controlInterval = 16;       // samples between control value updates
+
+    /**
+     * @param sampleRate Sample rate in Hz
+     * @param preset Initial settings
+     * @param frequencies Frequency of each MIDI note
+     * @param random Random number generator, for phases and noise
+     */
+    constructor(sampleRate: number, preset: Preset, frequencies: number[], random: () => number = Math.random) {
+        this.sampleRate = sampleRate;
+        this.preset = preset;
+        this.tables = preset.oscillators.map(oscillator => oscillator.wavetable.map(createWavetable));
+        this.frequencies = frequencies;
+        this.time = 0;
+        this.bend = 1;
+        this.modWheel = 0;
+        this.aftertouch = 0;
+        this.controllerCutoff = 0;
+        this.lfoValues = [0, 0];
+        this.random = random;
+        this.notes = [];
+        this.events = [];
+        this.targets = { bend: 1, modWheel: 0, aftertouch: 0 };
+        this.lfoPhases = [0, 0];
+        this.lfoHolds = [0, 0];
+    }
+
+    /** Queue an event, applied at its time. Events at the same time apply in order. */
+    schedule(event: EngineEvent) {
+        let index = this.events.length;
+        while (index > 0 && this.events[index - 1].time > event.time) {
+            index--;
+        }
+        this.events.splice(index, 0, event);
+    }
+
+    /** Render a block of samples, replacing the contents of the buffers.
+     *
+     * @param left Left channel
+     * @param right Right channel
+     * @param time Time of the first sample, in seconds
+     */
+    process(left: Float32Array, right: Float32Array, time: number) {
+        left.fill(0);
+        right.fill(0);
+        let start = 0;
+        while (start < left.length) {
+            this.time = time + start / this.sampleRate;
+            // Events apply at the first sample at or after their time
+            while (this.events.length > 0 && Math.ceil((this.events[0].time - time) * this.sampleRate - 1e-6) <= start) {
+                this.apply(this.events.shift()!);
+            }
+            let end = Math.min(start + this.controlInterval, left.length);
+            if (this.events.length > 0) {
+                end = Math.min(end, Math.max(Math.ceil((this.events[0].time - time) * this.sampleRate - 1e-6), start + 1));
+            }
+            this.control(end - start);
+            for (const note of this.notes) {
+                note.render(left, right, start, end);
+            }
+            this.notes = this.notes.filter(note => !note.done);
+            start = end;
+        }
+        this.time = time + left.length / this.sampleRate;
+    }
+
+    // Update the shared control values at the start of a block
+    private control(length: number) {
+        // Smooth controller steps, like the time constant of the node engine
+        const smoothing = 1 - Math.exp(-length / (this.sampleRate * 0.005));
+        this.bend += (this.targets.bend - this.bend) * smoothing;
+        this.modWheel += (this.targets.modWheel - this.modWheel) * smoothing;
+        this.aftertouch += (this.targets.aftertouch - this.aftertouch) * smoothing;
+        this.controllerCutoff = this.modWheel * this.preset.modWheel.cutoff + this.aftertouch * this.preset.aftertouch.cutoff;
+        for (let i = 0; i < this.preset.lfos.length && i < 2; i++) {
+            const settings = this.preset.lfos[i];
+            this.lfoValues[i] = lfoSample(settings.waveform, this.lfoPhases[i], this.lfoHolds[i]);
+            this.lfoPhases[i] += lfoFrequency(settings, this.preset.tempo) * length / this.sampleRate;
+            if (this.lfoPhases[i] >= 1) {
+                this.lfoPhases[i] -= Math.floor(this.lfoPhases[i]);
+                this.lfoHolds[i] = this.random() * 2 - 1;
+            }
+        }
+    }
+
+    private apply(event: EngineEvent) {
+        switch (event.type) {
+            case "preset": {
+                const { oscillators, ...sections } = event.preset;
+                const previous = this.preset.oscillators;
+                this.preset = { ...this.preset, ...sections };
+                if (oscillators) {
+                    // Keep the tables of unchanged wavetables
+                    this.tables = oscillators.map((oscillator, i) =>
+                        i < this.tables.length && (!oscillator.wavetable || JSON.stringify(oscillator.wavetable) === JSON.stringify(previous[i].wavetable))
+                            ? this.tables[i] : (oscillator.wavetable ?? []).map(createWavetable));
+                    this.preset.oscillators = oscillators.map((oscillator, i) => ({ ...oscillator, wavetable: oscillator.wavetable ?? previous[i]?.wavetable ?? [] }));
+                }
+                break;
+            }
+            case "tuning":
+                this.frequencies = event.frequencies;
+                break;
+            case "noteOn":
+                this.noteOn(event.noteNumber, event.velocity);
+                break;
+            case "noteOff":
+                this.noteOff(event.noteNumber);
+                break;
+            case "noteAbort":
+                this.notes = this.notes.filter(note => note.noteNumber !== event.noteNumber || note.stolen);
+                break;
+            case "pitchBend":
+                this.targets.bend = event.value;
+                break;
+            case "controllers":
+                this.targets.modWheel = event.modWheel;
+                this.targets.aftertouch = event.aftertouch;
+                break;
+            case "panic":
+                this.notes = [];
+                break;
+        }
+    }
+
+    private noteOn(noteNumber: number, velocity: number) {
+        if (!isFinite(this.frequencies[noteNumber])) {
+            return;
+        }
+        const mode = this.preset.mode;
+        if (mode === 2) { // Legato
+            const playing = this.notes.find(note => !note.released);
+            this.notes = playing ? [playing] : [];
+            if (playing) {
+                playing.legato(noteNumber);
+                this.previousNoteNumber = noteNumber;
+                return;
+            }
+        } else if (mode === 1) { // Mono
+            this.notes = [];
+        } else {
+            this.notes = this.notes.filter(note => note.noteNumber !== noteNumber || note.stolen);
+            let active = this.notes.filter(note => !note.stolen);
+            while (active.length >= this.preset.polyphony) {
+                const note = this.selectNoteToSteal(active);
+                note.steal();
+                active = active.filter(other => other !== note);
+            }
+        }
+        if (this.previousNoteNumber !== undefined && !isFinite(this.frequencies[this.previousNoteNumber])) {
+            // No glide from unmapped notes
+            this.previousNoteNumber = undefined;
+        }
+        this.notes.push(new EngineNote(this, noteNumber, velocity, this.previousNoteNumber));
+        this.previousNoteNumber = noteNumber;
+    }
+
+    private noteOff(noteNumber: number) {
+        for (const note of this.notes) {
+            if (note.noteNumber === noteNumber && !note.released) {
+                note.release();
+            }
+        }
+        if (this.previousNoteNumber === noteNumber && !this.preset.glide_always) {
+            this.previousNoteNumber = undefined;
+        }
+    }
+
+    private selectNoteToSteal(notes: EngineNote[]): EngineNote {
+        const select = (better: (a: EngineNote, b: EngineNote) => boolean) => notes.reduce((selected, note) => better(note, selected) ? note : selected);
+        switch (this.preset.voiceStealing) {
+            case 1: // Quietest
+                return select((a, b) => a.level < b.level);
+            case 2: // Released
+                return select((a, b) => a.released === b.released ? a.startTime < b.startTime : a.released);
+            case 3: // Highest
+                return select((a, b) => a.noteNumber > b.noteNumber);
+            case 4: // Lowest
+                return select((a, b) => a.noteNumber < b.noteNumber);
+            default: // Oldest
+                return select((a, b) => a.startTime < b.startTime);
+        }
+    }
+}
+
+/** Source of the DSP core, to load in an AudioWorkletGlobalScope.
+ *
+ * Built from the source text of the functions and classes, bundlers must keep their names
+ * (e.g. `keepNames` in esbuild, `keep_fnames` and `keep_classnames` in terser).
+ */
+export const dspSource = [
+    envelopeCurve,
+    startPhase,
+    polyBLEP,
+    oscillatorSample,
+    lfoSample,
+    lfoFrequency,
+    createWavetable,
+    wavetableSample,
+    resonanceToQuality,
+    distortionSample,
+    EnvelopeGenerator,
+    DriftGenerator,
+    StateVariableFilter,
+    Waveshaper,
+    EngineNote,
+    SynthEngine
+].map(String).join("\n\n");
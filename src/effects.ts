@@ -0,0 +1,193 @@
+import { Chorus } from "./chorus";
+import { Delay } from "./delay";
+import { Distortion } from "./distortion";
+import { Reverb } from "./reverb";
+import { ChorusMode, DistortionCurve, Effect, EffectFactory, EffectParameters, EffectSlot } from "./types";
+
+// Crossfade time between the old and the new chain when it is rebuilt, in seconds
+const crossfadeTime = 0.02;
+
+// Built-in effects and their default parameters
+const builtinEffects: Record<string, { create: EffectFactory, parameters: EffectParameters }> = {
+    chorus: {
+        create: audioCtx => new Chorus(audioCtx),
+        parameters: { amount: 0, mode: ChorusMode.I, rate: 1, depth: 1, delay: 1, feedback: 0, spread: 1, tone: 0.5 }
+    },
+    delay: {
+        create: audioCtx => new Delay(audioCtx),
+        parameters: { mix: 0, time: 0.375, sync: false, division: 3 / 16, feedback: 0.3, damping: 0.3, pingPong: false }
+    },
+    reverb: {
+        create: audioCtx => new Reverb(audioCtx),
+        parameters: { mix: 0, size: 0.5, decay: 2, preDelay: 0.01 }
+    },
+    distortion: {
+        create: audioCtx => new Distortion(audioCtx),
+        parameters: { mix: 1, drive: 0.5, curve: DistortionCurve.SoftClip, bits: 16, downsample: 1, tone: 1 }
+    }
+};
+
+// effect of a slot, added to the dry signal or replacing it
+interface EffectStage {
+    slot: EffectSlot;
+    effect: Effect;
+    dry: GainNode;      // open unless an insert effect is active
+    wet: GainNode;      // bypass
+    output: GainNode;   // dry and wet signal
+}
+
+// effects connected in order, replaced as a whole when the order changes
+interface EffectRoute {
+    input: GainNode;
+    stages: EffectStage[];
+    output: GainNode;   // crossfade
+}
+
+/** Ordered chain of effects, each adding its output to the dry signal or replacing it. */
+export class EffectChain {
+    private audioCtx: BaseAudioContext;
+    private factories: Map<string, EffectFactory>;
+    private _input: GainNode;
+    private output: GainNode;
+    private route: EffectRoute;
+    private tempo = 120; // BPM
+
+    constructor(audioCtx: BaseAudioContext, slots: EffectSlot[]) {
+        this.audioCtx = audioCtx;
+        this.factories = new Map();
+        for (const [type, builtin] of Object.entries(builtinEffects)) {
+            this.factories.set(type, builtin.create);
+        }
+        this._input = audioCtx.createGain();
+        this.output = audioCtx.createGain();
+        for (const slot of slots) {
+            if (!this.factories.has(slot.type)) {
+                throw new Error(`Unknown effect type: ${slot.type}`);
+            }
+        }
+        this.route = this.createRoute(slots, audioCtx.currentTime);
+        this.route.output.gain.value = 1;
+    }
+
+    /** Default parameters of a built-in effect, empty for other effects. */
+    static defaultParameters(type: string): EffectParameters {
+        return { ...builtinEffects[type]?.parameters };
+    }
+
+    get input(): AudioNode {
+        return this._input;
+    }
+
+    connect(output: AudioNode) {
+        this.output.connect(output);
+    }
+
+    disconnect() {
+        this.output.disconnect();
+    }
+
+    /** Whether an effect type is built in or registered. */
+    has(type: string): boolean {
+        return this.factories.has(type);
+    }
+
+    /** Add an effect type, replacing any previous effect of the type in new slots. */
+    register(type: string, create: EffectFactory) {
+        this.factories.set(type, create);
+    }
+
+    /** Get a copy of the slots. */
+    getSlots(): EffectSlot[] {
+        return this.route.stages.map(({ slot }) => ({ ...slot, parameters: { ...slot.parameters } }));
+    }
+
+    /** Replace the slots. Parameters and bypass are changed in place, other changes crossfade to a new chain.
+     *
+     * @param slots Slots in order
+     * @param when Time of the change, in the time coordinate of the audio context
+     */
+    setSlots(slots: EffectSlot[], when: number) {
+        for (const slot of slots) {
+            if (!this.factories.has(slot.type)) {
+                throw new Error(`Unknown effect type: ${slot.type}`);
+            }
+        }
+        const stages = this.route.stages;
+        if (slots.length === stages.length && slots.every((slot, i) => slot.type === stages[i].slot.type)) {
+            for (let i = 0; i < slots.length; i++) {
+                stages[i].slot = { ...slots[i], parameters: { ...slots[i].parameters } };
+                stages[i].effect.setParameters?.(slots[i].parameters, when);
+                stages[i].wet.gain.setTargetAtTime(slots[i].bypass ? 0 : 1, when, crossfadeTime / 4);
+                if (stages[i].effect.insert) {
+                    stages[i].dry.gain.setTargetAtTime(slots[i].bypass ? 1 : 0, when, crossfadeTime / 4);
+                }
+            }
+            return;
+        }
+        const previous = this.route;
+        this.route = this.createRoute(slots, when);
+        this.route.output.gain.setValueAtTime(0, when);
+        this.route.output.gain.linearRampToValueAtTime(1, when + crossfadeTime);
+        previous.output.gain.setValueAtTime(1, when);
+        previous.output.gain.linearRampToValueAtTime(0, when + crossfadeTime);
+        // Stop the previous effects after the crossfade, on the audio clock
+        const timer = this.audioCtx.createConstantSource();
+        timer.onended = () => this.stopRoute(previous);
+        timer.start(when);
+        timer.stop(when + crossfadeTime);
+    }
+
+    /** Set the tempo in BPM, for tempo-synced effects. */
+    setTempo(tempo: number, when: number) {
+        this.tempo = tempo;
+        for (const { effect } of this.route.stages) {
+            effect.setTempo?.(tempo, when);
+        }
+    }
+
+    stop() {
+        this.stopRoute(this.route);
+        this._input.disconnect();
+        this.output.disconnect();
+    }
+
+    private createRoute(slots: EffectSlot[], when: number): EffectRoute {
+        const input = this.audioCtx.createGain();
+        this._input.connect(input);
+        let bus = input;
+        const stages = slots.map(slot => {
+            const effect = this.factories.get(slot.type)!(this.audioCtx);
+            effect.setTempo?.(this.tempo, when);
+            effect.setParameters?.(slot.parameters, when);
+            const dry = this.audioCtx.createGain();
+            dry.gain.value = effect.insert && !slot.bypass ? 0 : 1;
+            const wet = this.audioCtx.createGain();
+            wet.gain.value = slot.bypass ? 0 : 1;
+            const output = this.audioCtx.createGain();
+            bus.connect(effect.input);
+            bus.connect(dry);
+            dry.connect(output);
+            effect.connect(wet);
+            wet.connect(output);
+            bus = output;
+            return { slot: { ...slot, parameters: { ...slot.parameters } }, effect, dry, wet, output };
+        });
+        const output = this.audioCtx.createGain();
+        output.gain.value = 0;
+        bus.connect(output);
+        output.connect(this.output);
+        return { input, stages, output };
+    }
+
+    private stopRoute(route: EffectRoute) {
+        this._input.disconnect(route.input);
+        route.input.disconnect();
+        for (const stage of route.stages) {
+            stage.effect.stop();
+            stage.dry.disconnect();
+            stage.wet.disconnect();
+            stage.output.disconnect();
+        }
+        route.output.disconnect();
+    }
+}
@@ -0,0 +1,101 @@
+import { CompressorSettings, EqualizerSettings } from "./types";
+
+/** Master section after the master volume: a 3-band EQ and a compressor with makeup gain. */
+export class MasterSection {
+    private audioCtx: BaseAudioContext;
+    private low: BiquadFilterNode;
+    private mid: BiquadFilterNode;
+    private high: BiquadFilterNode;
+    private compressor: DynamicsCompressorNode;
+    private makeup: GainNode;
+    private output: GainNode;
+    private eq: EqualizerSettings;
+    private compressorSettings: CompressorSettings;
+
+    constructor(audioCtx: BaseAudioContext, eq: EqualizerSettings, compressor: CompressorSettings) {
+        this.audioCtx = audioCtx;
+        this.low = audioCtx.createBiquadFilter();
+        this.mid = audioCtx.createBiquadFilter();
+        this.high = audioCtx.createBiquadFilter();
+        this.compressor = audioCtx.createDynamicsCompressor();
+        this.makeup = audioCtx.createGain();
+        this.output = audioCtx.createGain();
+        this.eq = { ...eq };
+        this.compressorSettings = { ...compressor };
+
+        this.low.type = 'lowshelf';
+        this.mid.type = 'peaking';
+        this.high.type = 'highshelf';
+        this.low.connect(this.mid);
+        this.mid.connect(this.high);
+        this.compressor.connect(this.makeup);
+        this.makeup.connect(this.output);
+        this.updateEqualizer(audioCtx.currentTime);
+        this.updateCompressor(audioCtx.currentTime);
+        this.high.connect(this.compressorSettings.on ? this.compressor : this.output);
+    }
+
+    get input(): AudioNode {
+        return this.low;
+    }
+
+    connect(output: AudioNode) {
+        this.output.connect(output);
+    }
+
+    disconnect() {
+        this.output.disconnect();
+    }
+
+    /** Get a copy of the EQ settings. */
+    getEqualizer(): EqualizerSettings {
+        return { ...this.eq };
+    }
+
+    /** Get a copy of the compressor settings. */
+    getCompressor(): CompressorSettings {
+        return { ...this.compressorSettings };
+    }
+
+    /** Change the EQ, unspecified settings are kept. */
+    setEqualizer(eq: Partial<EqualizerSettings>, when: number = this.audioCtx.currentTime) {
+        Object.assign(this.eq, eq);
+        this.updateEqualizer(when);
+    }
+
+    /** Change the compressor, unspecified settings are kept. Turning it on or off rewires the output immediately. */
+    setCompressor(compressor: Partial<CompressorSettings>, when: number = this.audioCtx.currentTime) {
+        const on = this.compressorSettings.on;
+        Object.assign(this.compressorSettings, compressor);
+        this.updateCompressor(when);
+        if (this.compressorSettings.on !== on) {
+            this.high.disconnect();
+            this.high.connect(this.compressorSettings.on ? this.compressor : this.output);
+        }
+    }
+
+    /** Current gain reduction of the compressor in dB, 0 or negative. */
+    getReduction(): number {
+        return this.compressorSettings.on ? this.compressor.reduction : 0;
+    }
+
+    private updateEqualizer(when: number) {
+        this.low.frequency.setValueAtTime(this.eq.lowFrequency, when);
+        this.low.gain.setValueAtTime(this.eq.lowGain, when);
+        this.mid.frequency.setValueAtTime(this.eq.midFrequency, when);
+        this.mid.gain.setValueAtTime(this.eq.midGain, when);
+        this.mid.Q.setValueAtTime(this.eq.midQ, when);
+        this.high.frequency.setValueAtTime(this.eq.highFrequency, when);
+        this.high.gain.setValueAtTime(this.eq.highGain, when);
+    }
+
+    private updateCompressor(when: number) {
+        const { threshold, knee, ratio, attack, release, makeup } = this.compressorSettings;
+        this.compressor.threshold.setValueAtTime(threshold, when);
+        this.compressor.knee.setValueAtTime(knee, when);
+        this.compressor.ratio.setValueAtTime(ratio, when);
+        this.compressor.attack.setValueAtTime(attack, when);
+        this.compressor.release.setValueAtTime(release, when);
+        this.makeup.gain.setValueAtTime(Math.pow(10, makeup / 20), when);
+    }
+}
@@ -0,0 +1,151 @@
+import type { Synth } from "./synth";
+
+/** Parsed MIDI channel message. */
+export type MIDIMessage =
+    | { type: "noteOn", channel: number, noteNumber: number, velocity: number }
+    | { type: "noteOff", channel: number, noteNumber: number, velocity: number }
+    | { type: "controlChange", channel: number, controller: number, value: number }
+    | { type: "channelPressure", channel: number, value: number }
+    | { type: "pitchBend", channel: number, value: number };
+
+/** Any object emitting raw MIDI byte messages, such as a Web MIDI `MIDIInput`. */
+export interface MIDIMessageSource {
+    addEventListener(type: "midimessage", listener: (event: { data: ArrayLike<number> | null }) => void): void;
+    removeEventListener(type: "midimessage", listener: (event: { data: ArrayLike<number> | null }) => void): void;
+}
+
+/** Options for MIDI input. */
+export interface MIDIInputOptions {
+    /** Channel to listen to (0-15). Ignored in omni mode. */
+    channel: number;
+    /** Listen to all channels. Defaults to on when no channel is given. */
+    omni: boolean;
+}
+
+const CC_MOD_WHEEL = 1;
+const CC_SUSTAIN = 64;
+const CC_SOSTENUTO = 66;
+const CC_ALL_SOUND_OFF = 120;
+const CC_ALL_NOTES_OFF = 123;
+
+/** Parse a raw MIDI message. Returns undefined for unsupported or malformed messages.
+ *
+ * Note on with velocity 0 is returned as note off.
+ */
+export function parseMIDIMessage(data: ArrayLike<number>): MIDIMessage | undefined {
+    if (data.length < 1) return undefined;
+    const status = data[0] & 0xf0;
+    const channel = data[0] & 0x0f;
+    switch (status) {
+        case 0x80:
+            if (data.length < 3) return undefined;
+            return { type: "noteOff", channel, noteNumber: data[1] & 0x7f, velocity: data[2] & 0x7f };
+        case 0x90:
+            if (data.length < 3) return undefined;
+            if ((data[2] & 0x7f) === 0) {
+                return { type: "noteOff", channel, noteNumber: data[1] & 0x7f, velocity: 0 };
+            }
+            return { type: "noteOn", channel, noteNumber: data[1] & 0x7f, velocity: data[2] & 0x7f };
+        case 0xb0:
+            if (data.length < 3) return undefined;
+            return { type: "controlChange", channel, controller: data[1] & 0x7f, value: data[2] & 0x7f };
+        case 0xd0:
+            if (data.length < 2) return undefined;
+            return { type: "channelPressure", channel, value: data[1] & 0x7f };
+        case 0xe0: {
+            if (data.length < 3) return undefined;
+            // 14-bit value centered at 8192, scaled to -1-1
+            const value = (((data[2] & 0x7f) << 7) | (data[1] & 0x7f)) - 8192;
+            return { type: "pitchBend", channel, value: value < 0 ? value / 8192 : value / 8191 };
+        }
+    }
+    return undefined;
+}
+
+/** Routes raw MIDI messages to a Synth. */
+export class MIDIInputBinding {
+    private synth: Synth;
+    private input?: MIDIMessageSource;
+    private heldNotes: Set<number>; // notes turned on by this binding
+    private listener: (event: { data: ArrayLike<number> | null }) => void;
+
+    /** Channel to listen to (0-15). Ignored in omni mode. */
+    channel: number;
+    /** Listen to all channels. */
+    omni: boolean;
+
+    constructor(synth: Synth, options: Partial<MIDIInputOptions> = {}) {
+        this.synth = synth;
+        this.heldNotes = new Set();
+        this.channel = options.channel ?? 0;
+        this.omni = options.omni ?? options.channel === undefined;
+        if (!Number.isInteger(this.channel) || this.channel < 0 || this.channel > 15) {
+            throw new Error("MIDI channel must be an integer between 0 and 15");
+        }
+        this.listener = event => {
+            if (event.data) {
+                this.handleMessage(event.data);
+            }
+        };
+    }
+
+    /** Start listening to a MIDI input. Detaches any previous input. */
+    attach(input: MIDIMessageSource) {
+        this.detach();
+        this.input = input;
+        input.addEventListener("midimessage", this.listener);
+    }
+
+    /** Stop listening and release all notes started by this binding. */
+    detach() {
+        if (this.input) {
+            this.input.removeEventListener("midimessage", this.listener);
+            this.input = undefined;
+        }
+        this.allNotesOff();
+    }
+
+    /** Handle a raw MIDI message. */
+    handleMessage(data: ArrayLike<number>) {
+        const message = parseMIDIMessage(data);
+        if (!message) return;
+        if (!this.omni && message.channel !== this.channel) return;
+        switch (message.type) {
+            case "noteOn":
+                this.heldNotes.add(message.noteNumber);
+                this.synth.noteOn(message.noteNumber, message.velocity / 127);
+                break;
+            case "noteOff":
+                this.heldNotes.delete(message.noteNumber);
+                this.synth.noteOff(message.noteNumber);
+                break;
+            case "controlChange":
+                if (message.controller === CC_MOD_WHEEL) {
+                    this.synth.setModWheel(message.value / 127);
+                } else if (message.controller === CC_SUSTAIN) {
+                    this.synth.setSustain(message.value >= 64);
+                } else if (message.controller === CC_SOSTENUTO) {
+                    this.synth.setSostenuto(message.value >= 64);
+                } else if (message.controller === CC_ALL_NOTES_OFF) {
+                    this.allNotesOff();
+                } else if (message.controller === CC_ALL_SOUND_OFF) {
+                    this.heldNotes.clear();
+                    this.synth.panic();
+                }
+                break;
+            case "channelPressure":
+                this.synth.setAftertouch(message.value / 127);
+                break;
+            case "pitchBend":
+                this.synth.setPitchBend(message.value);
+                break;
+        }
+    }
+
+    private allNotesOff() {
+        for (const noteNumber of this.heldNotes) {
+            this.synth.noteOff(noteNumber);
+        }
+        this.heldNotes.clear();
+    }
+}
@@ -1,4 +1,4 @@
-import { Mode, Waveform, type PartialPreset } from './types';
+import { Mode, ModulationDestination, ModulationSource, Waveform, type PartialPreset } from './types';
 
 /** Built-in example presets. */
 const presets = {
@@ -29,9 +29,9 @@ const presets = {
             keyboard: 0.5
         },
         fx: {
-            chorus: {
-                amount: 1
-            },
+            chain: [
+                { type: "chorus", parameters: { amount: 1 } }
+            ],
             softClip: true
         }
     },
@@ -107,9 +107,9 @@ const presets = {
             keyboard: 0.3
         },
         fx: {
-            chorus: {
-                amount: 1
-            },
+            chain: [
+                { type: "chorus", parameters: { amount: 1 } }
+            ],
             softClip: true
         }
     },
@@ -133,6 +133,41 @@ const presets = {
         mode: Mode.Legato,
         glide: 0.03
     },
+    "PWM Pad": {
+        oscillators: [
+            {
+                waveform: Waveform.Square,
+                pwm: 0.4
+            }
+        ],
+        envelopes: {
+            amplitude: {
+                attack: 0.4,
+                release: 0.8
+            }
+        },
+        filter: {
+            cutoff: 0.6,
+            keyboard: 0.5
+        },
+        lfos: [
+            {
+                frequency: 0.8
+            }
+        ],
+        modulation: [
+            {
+                source: ModulationSource.LFO,
+                destination: ModulationDestination.PWM,
+                amount: 0.4
+            }
+        ],
+        fx: {
+            chain: [
+                { type: "chorus", parameters: { amount: 1 } }
+            ]
+        }
+    },
 };
 
 export default presets;
@@ -0,0 +1,49 @@
+import type { Synth } from "./synth";
+
+/** Timestamped note event, time in seconds from the start of the rendering. */
+export type NoteEvent =
+    | { type: "noteOn", time: number, noteNumber: number, velocity?: number }
+    | { type: "noteOff", time: number, noteNumber: number };
+
+// Frames rendered at a time, suspensions are rounded down to a multiple
+const renderQuantum = 128;
+
+/** Render note events through a Synth created on an OfflineAudioContext.
+ *
+ * Events are scheduled with sample accuracy, one render quantum ahead. Rendering is suspended before each
+ * event, so notes that have ended are removed and do not count against the polyphony.
+ *
+ * @param synth Synth connected to the destination of audioCtx
+ * @param audioCtx Context to render, determines length and sample rate
+ * @param events Note events, events after the end of the rendering are ignored
+ * @returns Rendered audio
+ */
+export async function renderOffline(synth: Synth, audioCtx: OfflineAudioContext, events: NoteEvent[]): Promise<AudioBuffer> {
+    const duration = audioCtx.length / audioCtx.sampleRate;
+    // Sort to keep the order of voice allocation, stable for events at the same time
+    const sorted = events.filter(event => event.time < duration).sort((a, b) => a.time - b.time);
+    const eventFrame = (event: NoteEvent) => Math.max(event.time, 0) * audioCtx.sampleRate;
+    let index = 0;
+    // Schedule the events of the render quantum starting at a frame, and suspend at the next event
+    const scheduleQuantum = (frame: number) => {
+        while (index < sorted.length && eventFrame(sorted[index]) < frame + renderQuantum) {
+            const event = sorted[index++];
+            const when = Math.max(event.time, 0);
+            if (event.type === "noteOn") {
+                synth.noteOn(event.noteNumber, event.velocity, when);
+            } else {
+                synth.noteOff(event.noteNumber, when);
+            }
+        }
+        if (index < sorted.length) {
+            const next = Math.floor(eventFrame(sorted[index]) / renderQuantum) * renderQuantum;
+            // Half a frame in, in case of rounding
+            audioCtx.suspend((next + 0.5) / audioCtx.sampleRate).then(() => {
+                scheduleQuantum(next);
+                return audioCtx.resume();
+            });
+        }
+    };
+    scheduleQuantum(0);
+    return audioCtx.startRendering();
+}
@@ -0,0 +1,84 @@
+import { EffectParameters } from "./types";
+
+export class Reverb {
+    private maxPreDelay = 1;
+    private maxDecay = 10;
+
+    private audioCtx: BaseAudioContext;
+    private preDelay: DelayNode;
+    private convolver: ConvolverNode;
+    private _gain: GainNode;
+    private size = 0.5;
+    private decay = 2;
+
+    constructor(audioCtx: BaseAudioContext) {
+        this.audioCtx = audioCtx;
+        this.preDelay = audioCtx.createDelay(this.maxPreDelay);
+        this.convolver = audioCtx.createConvolver();
+        this._gain = audioCtx.createGain();
+        this._gain.gain.value = 0;
+
+        this.preDelay.delayTime.value = 0.01;
+        this.convolver.buffer = this.createImpulse();
+        this.preDelay.connect(this.convolver);
+        this.convolver.connect(this._gain);
+    }
+
+    // Decorrelated noise in each channel with an exponential decay to -60 dB, larger rooms build up slower
+    private createImpulse(): AudioBuffer {
+        const sampleRate = this.audioCtx.sampleRate;
+        const length = Math.max(Math.round(this.decay * sampleRate), 1);
+        const buildUp = 0.005 + this.size * 0.1;
+        const impulse = this.audioCtx.createBuffer(2, length, sampleRate);
+        for (let channel = 0; channel < 2; channel++) {
+            const data = impulse.getChannelData(channel);
+            for (let i = 0; i < length; i++) {
+                const time = i / sampleRate;
+                const envelope = Math.min(time / buildUp, 1) * Math.pow(10, -3 * time / this.decay);
+                data[i] = (Math.random() * 2 - 1) * envelope;
+            }
+        }
+        return impulse;
+    }
+
+    disconnect() {
+        this._gain.disconnect();
+    }
+
+    stop() {
+        this.preDelay.disconnect();
+        this.convolver.disconnect();
+        this._gain.disconnect();
+    }
+
+    connect(output: AudioNode) {
+        this._gain.connect(output);
+    }
+
+    get input(): AudioNode {
+        return this.preDelay;
+    }
+
+    get gain(): AudioParam {
+        return this._gain.gain;
+    }
+
+    /** Set the room size (0-1) and the decay time in seconds, limited to 10 seconds. Regenerates the impulse response. */
+    setRoom(size: number, decay: number) {
+        if (size === this.size && decay === this.decay) return;
+        this.size = size;
+        this.decay = Math.min(decay, this.maxDecay);
+        this.convolver.buffer = this.createImpulse();
+    }
+
+    /** Set the time before the reverb starts, in seconds, limited to 1 second. */
+    setPreDelay(time: number, when: number = this.audioCtx.currentTime) {
+        this.preDelay.delayTime.setValueAtTime(Math.min(time, this.maxPreDelay), when);
+    }
+
+    setParameters(parameters: EffectParameters, when: number) {
+        this._gain.gain.setValueAtTime(parameters.mix as number, when);
+        this.setRoom(parameters.size as number, parameters.decay as number);
+        this.setPreDelay(parameters.preDelay as number, when);
+    }
+}
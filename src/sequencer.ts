@@ -0,0 +1,83 @@
+import { LookaheadClock, NoteOutput, calculateStepLength } from "./clock";
+import { SequencerSettings } from "./types";
+
+/** Plays a pattern of steps while keys are held, transposed by the most recent key. */
+export class StepSequencer {
+    private output: NoteOutput;
+    private clock: LookaheadClock;
+    private root?: number;      // most recent held key
+    private stopTime: number;   // time when all keys were released
+    private tiedNote?: number;  // note held over from the previous step
+
+    /** Step sequencer settings. */
+    settings: SequencerSettings;
+    /** Tempo in BPM. */
+    tempo: number;
+
+    constructor(audioCtx: BaseAudioContext, output: NoteOutput, settings: SequencerSettings, tempo: number) {
+        this.output = output;
+        this.clock = new LookaheadClock(audioCtx, (time, step) => this.step(time, step));
+        this.stopTime = Infinity;
+        this.settings = settings;
+        this.tempo = tempo;
+    }
+
+    /** Update the held keys. Starts from the first step at the first key press and stops when the keys are released.
+     *
+     * @param keys Held keys, in the order they were pressed
+     * @param when Time of the change, in the time coordinate of the audio context
+     */
+    setKeys(keys: readonly number[], when: number) {
+        if (keys.length > 0) {
+            this.root = keys[keys.length - 1];
+            this.stopTime = Infinity;
+            if (!this.clock.running) {
+                this.clock.start(when);
+            }
+        } else {
+            this.stopTime = when;
+        }
+    }
+
+    /** Stop playing. */
+    reset() {
+        this.root = undefined;
+        this.tiedNote = undefined;
+        this.clock.stop();
+    }
+
+    private releaseTie(time: number) {
+        if (this.tiedNote !== undefined) {
+            this.output.noteOff(this.tiedNote, time);
+            this.tiedNote = undefined;
+        }
+    }
+
+    private step(time: number, step: number): number {
+        if (time >= this.stopTime || !this.settings.on || this.root === undefined) {
+            this.releaseTie(Math.min(time, this.stopTime));
+            this.clock.stop();
+            return 0;
+        }
+        const length = calculateStepLength(this.settings.division, this.tempo, this.settings.swing, step);
+        const { note, velocity, tie, rest } = this.settings.steps[step % this.settings.steps.length];
+        // Velocity 0 is a rest, as a MIDI note on with velocity 0 is a note off
+        if (rest || velocity === 0) {
+            this.releaseTie(time);
+            return length;
+        }
+        const noteNumber = this.root + note;
+        if (noteNumber !== this.tiedNote) {
+            // Release the tied note after the new note on, for legato transitions
+            this.output.noteOn(noteNumber, velocity, time);
+            this.releaseTie(time);
+        }
+        if (tie) {
+            this.tiedNote = noteNumber;
+        } else {
+            this.tiedNote = undefined;
+            this.output.noteOff(noteNumber, time + length * this.settings.gate);
+        }
+        return length;
+    }
+}
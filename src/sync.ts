@@ -0,0 +1,106 @@
+/** Name of the hard sync oscillator processor, also used for modulated pulse widths. */
+export const syncProcessorName = "synth-sync-oscillator";
+
+/** Options of a hard sync oscillator node. */
+export interface SyncOscillatorOptions {
+    waveform: number;   // Waveform, custom waveforms are not supported
+    phase: number;      // start phase, 0-1
+    start: number;      // silent before this time
+}
+
+/** AudioWorklet processor code of a hard synced oscillator.
+ *
+ * The input is a sine wave at the master frequency, and the phase restarts at each rising zero crossing.
+ * Without an input the oscillator runs free. The `frequency` and `detune` parameters set the pitch of the
+ * synced oscillator, and `pwm` (0-1) the pulse width of the square wave. Discontinuities are smoothed
+ * with PolyBLEP, which delays the output by one sample. Post any message to stop the processor.
+ */
+export const syncProcessorCode = `
+class SyncOscillatorProcessor extends AudioWorkletProcessor {
+    static get parameterDescriptors() {
+        return [
+            { name: "frequency", defaultValue: 0, automationRate: "a-rate" },
+            { name: "detune", defaultValue: 0, automationRate: "a-rate" },
+            { name: "pwm", defaultValue: 0, automationRate: "a-rate" }
+        ];
+    }
+
+    constructor(options) {
+        super();
+        const { waveform, phase, start } = options.processorOptions;
+        this.waveform = waveform;
+        this.duty = 0.5;
+        this.phase = phase;
+        this.start = start;
+        this.master = 0;        // previous master sample
+        this.previous = 0;      // previous output sample, corrected for discontinuities
+        this.correction = 0;    // correction of the current sample
+        this.running = true;
+        this.port.onmessage = () => {
+            this.running = false;
+        };
+    }
+
+    value(phase) {
+        switch (this.waveform) {
+            case 0: return 1 - 2 * phase;
+            case 1: return phase < this.duty ? 1 : -1;
+            case 2: return Math.sin(2 * Math.PI * phase);
+            default: return phase < 0.25 ? 4 * phase : phase < 0.75 ? 2 - 4 * phase : 4 * phase - 4;
+        }
+    }
+
+    // PolyBLEP correction of a jump, x samples before the current sample
+    discontinuity(height, x) {
+        this.correction -= height / 2 * (1 - x) * (1 - x);
+        this.previous += height / 2 * x * x;
+    }
+
+    process(inputs, outputs, parameters) {
+        const input = inputs[0][0];
+        const output = outputs[0][0];
+        const frequency = parameters.frequency;
+        const detune = parameters.detune;
+        const pwm = parameters.pwm;
+        for (let i = 0; i < output.length; i++) {
+            if (currentTime + i / sampleRate < this.start) {
+                output[i] = 0;
+                continue;
+            }
+            const f = frequency.length > 1 ? frequency[i] : frequency[0];
+            const cents = detune.length > 1 ? detune[i] : detune[0];
+            const width = pwm.length > 1 ? pwm[i] : pwm[0];
+            this.duty = 0.5 - Math.min(Math.max(width, 0), 1) * 0.49;
+            const dt = Math.min(Math.abs(f) * Math.pow(2, cents / 1200) / sampleRate, 0.5);
+            const master = input ? input[i] : 0;
+            this.correction = 0;
+            if (this.master < 0 && master >= 0) {
+                // Restart at the interpolated zero crossing
+                const x = master / (master - this.master);
+                const before = this.phase + dt * (1 - x);
+                const height = this.value(0) - this.value(before - Math.floor(before));
+                this.phase = dt * x;
+                this.discontinuity(height, x);
+            } else {
+                const phase = this.phase + dt;
+                if (this.waveform === 1 && this.phase < this.duty && phase >= this.duty && dt > 0) {
+                    this.discontinuity(-2, (phase - this.duty) / dt);
+                }
+                this.phase = phase;
+                if (this.phase >= 1) {
+                    this.phase -= 1;
+                    if (this.waveform === 0 || this.waveform === 1) {
+                        this.discontinuity(2, this.phase / dt);
+                    }
+                }
+            }
+            this.master = master;
+            output[i] = this.previous;
+            this.previous = this.value(this.phase) + this.correction;
+        }
+        return this.running;
+    }
+}
+
+registerProcessor("${syncProcessorName}", SyncOscillatorProcessor);
+`;
@@ -1,8 +1,22 @@
-import { Chorus } from "./chorus";
+import { Arpeggiator } from "./arpeggiator";
+import { Distortion } from "./distortion";
+import { EffectChain } from "./effects";
+import { MasterSection } from "./master";
+import { MIDIInputBinding, MIDIInputOptions, MIDIMessage, MIDIMessageSource, parseMIDIMessage } from "./midi";
 import presets from "./presets";
-import { Waveform, Mode, Note, OscillatorSettings, ADSR, Preset, PartialPreset } from "./types";
+import { StepSequencer } from "./sequencer";
+import { SyncOscillatorOptions, syncProcessorCode, syncProcessorName } from "./sync";
+import { engineProcessorCode, engineProcessorName, loadProcessor } from "./worklet";
+import { NoteEvent, renderOffline } from "./render";
+import { WAVFormat, AudioBufferLike, encodeWAV } from "./wav";
+import { Scale, KeyboardMapping, parseScala, parseKeyboardMapping, defaultKeyboardMapping, createTuningTable } from "./tuning";
+import { Waveform, NoiseType, LFOWaveform, FilterType, VelocityCurve, Mode, ModulationSource, ModulationDestination, VoiceStealing, PhaseMode, ArpeggiatorOrder, ChorusMode, DistortionCurve, Engine, EngineEvent, EnginePresetUpdate, Effect, EffectFactory, EffectParameters, EffectSlot, ChorusParameters, DelayParameters, ReverbParameters, DistortionParameters, EqualizerSettings, CompressorSettings, ArpeggiatorSettings, SequencerStep, SequencerSettings, WavetableFrame, Note, NoteChain, NoteModulation, LFO, NoteLFO, Voice, Drift, Oscillator, Noise, OscillatorSettings, NoiseSettings, SubOscillatorSettings, LFOSettings, ControllerAmounts, ModulationSlot, ADSR, Preset, PartialPreset } from "./types";
 
-export { presets, Waveform, Mode, ADSR, Preset, PartialPreset };
+export { presets, Waveform, NoiseType, LFOWaveform, FilterType, VelocityCurve, Mode, ModulationSource, ModulationDestination, VoiceStealing, PhaseMode, ArpeggiatorOrder, ChorusMode, DistortionCurve, Engine, Effect, EffectFactory, EffectParameters, EffectSlot, ChorusParameters, DelayParameters, ReverbParameters, DistortionParameters, EqualizerSettings, CompressorSettings, ArpeggiatorSettings, SequencerStep, SequencerSettings, WavetableFrame, ADSR, LFOSettings, ControllerAmounts, ModulationSlot, Preset, PartialPreset };
+export { MIDIInputBinding, MIDIInputOptions, MIDIMessage, MIDIMessageSource, parseMIDIMessage };
+export { NoteEvent, renderOffline };
+export { WAVFormat, AudioBufferLike, encodeWAV };
+export { Scale, KeyboardMapping, parseScala, parseKeyboardMapping, defaultKeyboardMapping, createTuningTable };
 
 function assert(condition: any, message?: string): asserts condition {
     if (!condition) {
@@ -10,7 +24,7 @@ function assert(condition: any, message?: string): asserts condition {
     }
 }
 
-function validatePreset(preset: PartialPreset) {
+function validatePreset(preset: PartialPreset, effects: EffectChain) {
     for (const envelope of [preset.envelopes?.amplitude, preset.envelopes?.filter]) {
         if (!envelope) continue;
         assert((envelope.attack ?? 0) >= 0, "Attack must be non-negative");
@@ -18,21 +32,151 @@ function validatePreset(preset: PartialPreset) {
         assert((envelope.sustain ?? 0) >= 0 && (envelope.sustain ?? 0) <= 1, "Sustain must be between 0 and 1");
         assert((envelope.release ?? 0) >= 0, "Release must be non-negative");
     }
+    assert(preset.oscillators === undefined || preset.oscillators.length >= 1, "At least one oscillator is required");
+    assert((preset.oscillators?.length ?? 0) <= maxOscillators, `At most ${maxOscillators} oscillators are supported`);
     for (const oscillator of preset.oscillators ?? []) {
         if (!oscillator) continue;
         assert((oscillator.unison ?? 1) >= 1, "Unison must be at least 1");
+        assert(oscillator.waveform === undefined || Waveform[oscillator.waveform] !== undefined, "Invalid waveform");
+        assert((oscillator.position ?? 0) >= 0 && (oscillator.position ?? 0) <= 1, "Wavetable position must be between 0 and 1");
+        assert((oscillator.fm ?? 0) >= 0 && (oscillator.fm ?? 0) <= 1, "FM amount must be between 0 and 1");
+        if (oscillator.wavetable) {
+            assert(oscillator.wavetable.length <= maxWavetableFrames, `Wavetable must have at most ${maxWavetableFrames} frames`);
+            for (const frame of oscillator.wavetable) {
+                assert(frame && ("harmonics" in frame ? Array.isArray(frame.harmonics) && frame.harmonics.length > 0 : "samples" in frame && Array.isArray(frame.samples) && frame.samples.length >= 2), "Wavetable frame must have harmonics or at least two samples");
+            }
+        }
     }
+    assert(preset.noise?.type === undefined || NoiseType[preset.noise.type] !== undefined, "Invalid noise type");
+    assert(preset.sub?.octave === undefined || preset.sub.octave === 1 || preset.sub.octave === 2, "Sub-oscillator octave must be 1 or 2");
+    assert(preset.sub?.waveform === undefined || (Waveform[preset.sub.waveform] !== undefined && preset.sub.waveform !== Waveform.Custom), "Invalid sub-oscillator waveform");
+    assert(preset.filter?.type === undefined || FilterType[preset.filter.type] !== undefined, "Invalid filter type");
+    assert(preset.filter?.slope === undefined || preset.filter.slope === 12 || preset.filter.slope === 24, "Filter slope must be 12 or 24");
     assert((preset.filter?.cutoff ?? 0) >= 0 && (preset.filter?.cutoff ?? 0) <= 1, "Cutoff must be between 0 and 1");
     assert((preset.filter?.envelope ?? 0) >= 0 && (preset.filter?.envelope ?? 0) <= 1, "Filter envelope must be between 0 and 1");
     assert((preset.filter?.keyboard ?? 0) >= 0 && (preset.filter?.keyboard ?? 0) <= 1, "Keyboard tracking must be between 0 and 1");
 
+    assert((preset.velocity?.amplitude ?? 0) >= 0 && (preset.velocity?.amplitude ?? 0) <= 1, "Amplitude velocity sensitivity must be between 0 and 1");
+    assert((preset.velocity?.filter ?? 0) >= 0 && (preset.velocity?.filter ?? 0) <= 1, "Filter velocity depth must be between 0 and 1");
+    assert(preset.velocity?.curve === undefined || VelocityCurve[preset.velocity.curve] !== undefined, "Invalid velocity curve");
+
     assert((preset.glide ?? 0) >= 0, "Glide must be non-negative");
+    assert(preset.phase === undefined || PhaseMode[preset.phase] !== undefined, "Invalid phase mode");
+    assert((preset.drift ?? 0) >= 0 && (preset.drift ?? 0) <= 100, "Drift must be between 0 and 100 cents");
+    assert(Number.isInteger(preset.polyphony ?? 1) && (preset.polyphony ?? 1) >= 1, "Polyphony must be a positive integer");
+    assert(preset.voiceStealing === undefined || VoiceStealing[preset.voiceStealing] !== undefined, "Invalid voice stealing policy");
     assert((preset.lfoFrequency ?? 0) >= 0, "LFO frequency must be non-negative");
     assert((preset.lfoPitch ?? 0) >= 0 && (preset.lfoPitch ?? 0) <= 1, "LFO pitch must be between 0 and 1");
+    assert((preset.lfos?.length ?? 0) <= 2, "At most two LFOs are supported");
+    for (const lfo of preset.lfos ?? []) {
+        if (!lfo) continue;
+        assert(lfo.waveform === undefined || LFOWaveform[lfo.waveform] !== undefined, "Invalid LFO waveform");
+        assert((lfo.frequency ?? 0) >= 0, "LFO frequency must be non-negative");
+        assert((lfo.division ?? 1) > 0, "LFO division must be positive");
+        assert((lfo.delay ?? 0) >= 0, "LFO delay must be non-negative");
+        for (const depth of [lfo.pitch, lfo.cutoff, lfo.level, lfo.pan]) {
+            assert((depth ?? 0) >= 0 && (depth ?? 0) <= 1, "LFO depth must be between 0 and 1");
+        }
+    }
+    assert((preset.tempo ?? 1) > 0, "Tempo must be positive");
+    for (const controller of [preset.modWheel, preset.aftertouch]) {
+        if (!controller) continue;
+        assert((controller.pitch ?? 0) >= 0 && (controller.pitch ?? 0) <= 1, "Controller pitch amount must be between 0 and 1");
+        assert((controller.cutoff ?? 0) >= -1 && (controller.cutoff ?? 0) <= 1, "Controller cutoff amount must be between -1 and 1");
+    }
+    for (const slot of preset.modulation ?? []) {
+        assert(slot, "Modulation slot must be defined");
+        assert(slot.source !== undefined && ModulationSource[slot.source] !== undefined, "Invalid modulation source");
+        assert(slot.destination !== undefined && ModulationDestination[slot.destination] !== undefined, "Invalid modulation destination");
+        assert((slot.amount ?? 0) >= -1 && (slot.amount ?? 0) <= 1, "Modulation amount must be between -1 and 1");
+    }
+    if (preset.arpeggiator) {
+        assert(preset.arpeggiator.order === undefined || ArpeggiatorOrder[preset.arpeggiator.order] !== undefined, "Invalid arpeggiator order");
+        assert(Number.isInteger(preset.arpeggiator.octaves ?? 1) && (preset.arpeggiator.octaves ?? 1) >= 1 && (preset.arpeggiator.octaves ?? 1) <= 4, "Arpeggiator octaves must be an integer between 1 and 4");
+    }
+    if (preset.sequencer?.steps) {
+        assert(preset.sequencer.steps.length >= 1 && preset.sequencer.steps.length <= 64, "Sequencer must have between 1 and 64 steps");
+        for (const step of preset.sequencer.steps) {
+            assert(step, "Sequencer step must be defined");
+            assert(Number.isInteger(step.note ?? 0), "Sequencer step note must be an integer");
+            assert((step.velocity ?? 1) >= 0 && (step.velocity ?? 1) <= 1, "Sequencer step velocity must be between 0 and 1");
+        }
+    }
+    for (const pattern of [preset.arpeggiator, preset.sequencer]) {
+        if (!pattern) continue;
+        assert((pattern.division ?? 1) > 0, "Step division must be positive");
+        assert((pattern.gate ?? 1) > 0 && (pattern.gate ?? 1) <= 1, "Gate must be greater than 0 and at most 1");
+        assert((pattern.swing ?? 0) >= 0 && (pattern.swing ?? 0) <= 1, "Swing must be between 0 and 1");
+    }
+    assert((preset.pitchBendRange ?? 0) >= 0 && (preset.pitchBendRange ?? 0) <= 24, "Pitch bend range must be between 0 and 24");
+
+    const slots = preset.fx?.chain ? effects.getSlots() : [];
+    preset.fx?.chain?.forEach((slot, i) => {
+        assert(slot, "Effect slot must be defined");
+        assert(slot.type === undefined || typeof slot.type === "string", "Effect type must be a string");
+        // Unspecified types keep the effect of the slot
+        const type = slot.type ?? slots[i]?.type;
+        assert(type !== undefined, "Effect type must be defined");
+        assert(effects.has(type), `Unknown effect type: ${type}`);
+        validateEffectParameters(type, slot.parameters ?? {});
+    });
+    validateEffectParameters("chorus", preset.fx?.chorus ?? {});
+    validateEffectParameters("delay", preset.fx?.delay ?? {});
+    validateEffectParameters("reverb", preset.fx?.reverb ?? {});
+    validateEffectParameters("distortion", preset.fx?.noteDistortion ?? {});
 
-    if (preset.fx && preset.fx.chorus) {
-        assert((preset.fx.chorus.amount ?? 0) >= 0, "Chorus amount must be non-negative");
-        assert((preset.fx.chorus.mode ?? 0) === 0 || (preset.fx.chorus.mode ?? 0) === 1, "Chorus mode must be 0 or 1");
+    const eq = preset.master?.eq;
+    assert((eq?.lowFrequency ?? 200) >= 20 && (eq?.lowFrequency ?? 200) <= 1000, "EQ low frequency must be between 20 and 1000 Hz");
+    assert((eq?.midFrequency ?? 1000) >= 100 && (eq?.midFrequency ?? 1000) <= 10000, "EQ mid frequency must be between 100 and 10000 Hz");
+    assert((eq?.highFrequency ?? 5000) >= 1000 && (eq?.highFrequency ?? 5000) <= 20000, "EQ high frequency must be between 1000 and 20000 Hz");
+    for (const gain of [eq?.lowGain, eq?.midGain, eq?.highGain]) {
+        assert((gain ?? 0) >= -24 && (gain ?? 0) <= 24, "EQ gain must be between -24 and 24 dB");
+    }
+    assert((eq?.midQ ?? 1) >= 0.1 && (eq?.midQ ?? 1) <= 10, "EQ mid Q must be between 0.1 and 10");
+    const compressor = preset.master?.compressor;
+    assert((compressor?.threshold ?? 0) >= -100 && (compressor?.threshold ?? 0) <= 0, "Compressor threshold must be between -100 and 0 dB");
+    assert((compressor?.knee ?? 0) >= 0 && (compressor?.knee ?? 0) <= 40, "Compressor knee must be between 0 and 40 dB");
+    assert((compressor?.ratio ?? 1) >= 1 && (compressor?.ratio ?? 1) <= 20, "Compressor ratio must be between 1 and 20");
+    assert((compressor?.attack ?? 0) >= 0 && (compressor?.attack ?? 0) <= 1, "Compressor attack must be between 0 and 1 second");
+    assert((compressor?.release ?? 0) >= 0 && (compressor?.release ?? 0) <= 1, "Compressor release must be between 0 and 1 second");
+    assert((compressor?.makeup ?? 0) >= 0 && (compressor?.makeup ?? 0) <= 24, "Compressor makeup gain must be between 0 and 24 dB");
+}
+
+// Check the parameters of a built-in effect
+function validateEffectParameters(type: string | undefined, parameters: { [name: string]: number | boolean | undefined }) {
+    const value = (name: string, fallback: number) => (parameters[name] ?? fallback) as number;
+    switch (type) {
+        case "chorus":
+            assert(value("amount", 0) >= 0, "Chorus amount must be non-negative");
+            assert(ChorusMode[value("mode", 0)] !== undefined, "Invalid chorus mode");
+            assert(value("rate", 1) >= 0.1 && value("rate", 1) <= 10, "Chorus rate must be between 0.1 and 10");
+            assert(value("depth", 1) >= 0 && value("depth", 1) <= 2, "Chorus depth must be between 0 and 2");
+            assert(value("delay", 1) >= 0.1 && value("delay", 1) <= 4, "Chorus delay must be between 0.1 and 4");
+            assert(value("feedback", 0) >= 0 && value("feedback", 0) <= 0.95, "Chorus feedback must be between 0 and 0.95");
+            assert(value("spread", 1) >= 0 && value("spread", 1) <= 1, "Chorus spread must be between 0 and 1");
+            assert(value("tone", 0.5) >= 0 && value("tone", 0.5) <= 1, "Chorus tone must be between 0 and 1");
+            break;
+        case "delay":
+            assert(value("mix", 0) >= 0 && value("mix", 0) <= 1, "Delay mix must be between 0 and 1");
+            assert(value("time", 0) >= 0 && value("time", 0) <= 5, "Delay time must be between 0 and 5 seconds");
+            assert(value("division", 1) > 0, "Delay division must be positive");
+            assert(value("feedback", 0) >= 0 && value("feedback", 0) <= 0.95, "Delay feedback must be between 0 and 0.95");
+            assert(value("damping", 0) >= 0 && value("damping", 0) <= 1, "Delay damping must be between 0 and 1");
+            break;
+        case "reverb":
+            assert(value("mix", 0) >= 0 && value("mix", 0) <= 1, "Reverb mix must be between 0 and 1");
+            assert(value("size", 0) >= 0 && value("size", 0) <= 1, "Reverb size must be between 0 and 1");
+            assert(value("decay", 1) > 0 && value("decay", 1) <= 10, "Reverb decay must be between 0 and 10 seconds");
+            assert(value("preDelay", 0) >= 0 && value("preDelay", 0) <= 1, "Reverb pre-delay must be between 0 and 1 second");
+            break;
+        case "distortion":
+            assert(value("mix", 0) >= 0 && value("mix", 0) <= 1, "Distortion mix must be between 0 and 1");
+            assert(value("drive", 0) >= 0 && value("drive", 0) <= 1, "Distortion drive must be between 0 and 1");
+            assert(DistortionCurve[value("curve", 0)] !== undefined, "Invalid distortion curve");
+            assert(value("bits", 16) >= 1 && value("bits", 16) <= 16, "Distortion bits must be between 1 and 16");
+            assert(value("downsample", 1) >= 1 && value("downsample", 1) <= 64, "Distortion downsample must be between 1 and 64");
+            assert(value("tone", 0) >= 0 && value("tone", 0) <= 1, "Distortion tone must be between 0 and 1");
+            break;
     }
 }
 
@@ -56,12 +200,21 @@ export function frequencyToValue(frequency: number): number {
     return Math.log(frequency / 20) / Math.log(1000);
 }
 
-function resonanceToQ(resonance: number): number {
+// Lowpass and highpass Q is in dB, bandpass and notch Q is a quality factor
+function resonanceToQ(resonance: number, type: FilterType): number {
+    if (type === FilterType.Bandpass || type === FilterType.Notch) {
+        return 0.5 + resonance * 20;
+    }
     return -6 + resonance * 26;
 }
 
-function QToResonance(Q: number): number {
-    return (Q + 6) / 26;
+function filterTypeToBiquadType(type: FilterType): BiquadFilterType {
+    switch (type) {
+        case FilterType.Lowpass: return "lowpass";
+        case FilterType.Highpass: return "highpass";
+        case FilterType.Bandpass: return "bandpass";
+        case FilterType.Notch: return "notch";
+    }
 }
 
 function calculateDetune(unison: number, voice: number): number {
@@ -98,23 +251,212 @@ function calculateEnvelopeCurveArray(start: number, end: number, shape: number):
     return curve;
 }
 
-function createConstantSource(audioCtx: AudioContext, value: number): ConstantSourceNode {
+/** Schedule the attack and decay phases of an envelope on a new parameter.
+ *
+ * @param param Parameter to automate
+ * @param envelope Envelope settings
+ * @param peak Value at the end of the attack phase
+ * @param time Start time
+ */
+function scheduleEnvelope(param: AudioParam, envelope: ADSR, peak: number, time: number) {
+    if (envelope.attack > 0) {
+        param.value = 0;
+        param.setValueCurveAtTime(calculateEnvelopeCurveArray(0, peak, envelope.attackShape), time, envelope.attack);
+    } else {
+        param.value = peak;
+    }
+    if (envelope.decay > 0) {
+        param.setValueCurveAtTime(calculateEnvelopeCurveArray(peak, peak * envelope.sustain, envelope.decayShape), time + envelope.attack, envelope.decay);
+    } else {
+        param.setValueAtTime(peak * envelope.sustain, time + envelope.attack);
+    }
+}
+
+/** Calculate the value of an envelope before its release phase.
+ *
+ * @param envelope Envelope settings
+ * @param peak Value at the end of the attack phase
+ * @param time Time since the start of the envelope
+ */
+function calculateEnvelopeValue(envelope: ADSR, peak: number, time: number): number {
+    if (time < 0) return 0;
+    if (time < envelope.attack) {
+        return peak * calculateEnvelopeCurve(time / envelope.attack, envelope.attackShape);
+    }
+    time -= envelope.attack;
+    if (time < envelope.decay) {
+        return peak + (peak * envelope.sustain - peak) * calculateEnvelopeCurve(time / envelope.decay, envelope.decayShape);
+    }
+    return peak * envelope.sustain;
+}
+
+/** Schedule the release phase of an envelope, replacing any later automation.
+ *
+ * @param param Parameter to automate
+ * @param envelope Envelope settings
+ * @param value Value at the start of the release
+ * @param time Start time
+ * @returns False if the release overlaps a curve that cannot be cancelled (Firefox)
+ */
+function scheduleRelease(param: AudioParam, envelope: ADSR, value: number, time: number): boolean {
+    try {
+        if (typeof param.cancelAndHoldAtTime === "function") {
+            param.cancelAndHoldAtTime(time);
+        } else {
+            param.cancelScheduledValues(time);
+        }
+        if (envelope.release > 0) {
+            param.setValueAtTime(value, time);
+            param.setValueCurveAtTime(calculateEnvelopeCurveArray(value, 0, envelope.releaseShape), time, envelope.release);
+        } else {
+            param.setValueAtTime(0, time);
+        }
+        return true;
+    } catch (err) {
+        return false;
+    }
+}
+
+// Keep the value of a parameter from a time on, cancelling later automation
+function holdValueAtTime(param: AudioParam, time: number) {
+    if (typeof param.cancelAndHoldAtTime === "function") {
+        param.cancelAndHoldAtTime(time);
+    } else {
+        // Firefox, hold the current value
+        const value = param.value;
+        param.cancelScheduledValues(time);
+        param.setValueAtTime(value, time);
+    }
+}
+
+// Number of phase steps of cached PeriodicWaves, for random and free running phases
+const periodicWavePhases = 16;
+// Cached PeriodicWaves before the cache is cleared, bounds the cache while sweeping PWM
+const maxPeriodicWaves = 256;
+
+// Fade out time of stolen voices, in seconds
+const voiceStealingFadeTime = 0.005;
+
+function createConstantSource(audioCtx: BaseAudioContext, value: number): ConstantSourceNode {
     const constantSource = audioCtx.createConstantSource();
     constantSource.offset.value = value;
     constantSource.start();
     return constantSource;
 }
 
-function defaultOscillatorSettings(audioCtx: AudioContext, on: boolean): OscillatorSettings {
-    return { on, gain: 1, compound_gain: createConstantSource(audioCtx, 1), semitones: 0, fine: 0, unison: 1, detune: 0, pitch: createConstantSource(audioCtx, 1), waveform: Waveform.Sawtooth, pwm: 0 };
+// Maximum number of oscillators in a preset
+const maxOscillators = 8;
+
+function defaultOscillatorSettings(audioCtx: BaseAudioContext, on: boolean): OscillatorSettings {
+    return { on, gain: 1, compound_gain: createConstantSource(audioCtx, 1), semitones: 0, fine: 0, unison: 1, detune: 0, pitch: createConstantSource(audioCtx, 1), waveform: Waveform.Sawtooth, pwm: 0, wavetable: [], spectra: [], waves: [], position: createConstantSource(audioCtx, 0), positionValue: 0, fm: createConstantSource(audioCtx, 0), fmAmount: 0, ring: false, sync: false, notes: 0, removed: false };
 }
 
-async function loadAudioWorkletProcessor(audioCtx: AudioContext, processorCode: string): Promise<void> {
-    const blob = new Blob([processorCode], { type: 'application/javascript' });
-    return audioCtx.audioWorklet.addModule(URL.createObjectURL(blob));
+// Length of the looping noise buffers, in seconds
+const noiseDuration = 2;
+
+function createNoiseBuffer(audioCtx: BaseAudioContext, type: NoiseType): AudioBuffer {
+    const buffer = audioCtx.createBuffer(1, Math.round(noiseDuration * audioCtx.sampleRate), audioCtx.sampleRate);
+    const data = buffer.getChannelData(0);
+    // Pink noise from filtered white noise, Paul Kellett's refined method
+    let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+    for (let i = 0; i < data.length; i++) {
+        const white = Math.random() * 2 - 1;
+        if (type === NoiseType.Pink) {
+            b0 = 0.99886 * b0 + white * 0.0555179;
+            b1 = 0.99332 * b1 + white * 0.0750759;
+            b2 = 0.96900 * b2 + white * 0.1538520;
+            b3 = 0.86650 * b3 + white * 0.3104856;
+            b4 = 0.55000 * b4 + white * 0.5329522;
+            b5 = -0.7616 * b5 - white * 0.0168980;
+            data[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+            b6 = white * 0.115926;
+        } else {
+            data[i] = white;
+        }
+    }
+    return buffer;
 }
 
-function createPeriodicWave(audioCtx: AudioContext, waveform: Waveform, phase: number = 0, pwm: number = 0): PeriodicWave {
+// Length of the looping drift buffer and the time between its random points, in seconds
+const driftDuration = 16;
+const driftInterval = 0.5;
+
+// Smooth random curve between -1 and 1, cosine interpolated between random points
+function createDriftBuffer(audioCtx: BaseAudioContext): AudioBuffer {
+    const sampleRate = 8000;
+    const buffer = audioCtx.createBuffer(1, driftDuration * sampleRate, sampleRate);
+    const data = buffer.getChannelData(0);
+    const points = Array.from({ length: driftDuration / driftInterval }, () => Math.random() * 2 - 1);
+    for (let i = 0; i < data.length; i++) {
+        const position = i / sampleRate / driftInterval;
+        const point = Math.floor(position);
+        const fraction = (1 - Math.cos(Math.PI * (position - point))) / 2;
+        const next = points[(point + 1) % points.length];
+        data[i] = points[point] + (next - points[point]) * fraction;
+    }
+    return buffer;
+}
+
+function defaultLFO(audioCtx: BaseAudioContext): LFO {
+    const frequency = createConstantSource(audioCtx, Synth.defaultPreset.lfos[0].frequency);
+    const oscillator = audioCtx.createOscillator();
+    oscillator.frequency.value = 0;
+    frequency.connect(oscillator.frequency);
+    oscillator.start();
+    return {
+        settings: { ...Synth.defaultPreset.lfos[0] },
+        oscillator,
+        frequency,
+        depths: {
+            pitch: createConstantSource(audioCtx, 0),
+            cutoff: createConstantSource(audioCtx, 0),
+            level: createConstantSource(audioCtx, 0),
+            pan: createConstantSource(audioCtx, 0)
+        }
+    };
+}
+
+const sampleAndHoldSteps = 16;
+
+// Random steps, the LFO runs at 1/sampleAndHoldSteps of the rate to play them in sequence
+function createSampleAndHoldWave(audioCtx: BaseAudioContext): PeriodicWave {
+    const steps = new Float32Array(sampleAndHoldSteps);
+    for (let i = 0; i < steps.length; i++) {
+        steps[i] = Math.random() * 2 - 1;
+    }
+    const size = 256;
+    const real = new Float32Array(size);
+    const imag = new Float32Array(size);
+    for (let k = 1; k < size; k++) {
+        for (let j = 0; j < steps.length; j++) {
+            const start = 2 * Math.PI * k * j / steps.length;
+            const end = 2 * Math.PI * k * (j + 1) / steps.length;
+            real[k] += steps[j] * (Math.sin(end) - Math.sin(start)) / (Math.PI * k);
+            imag[k] += steps[j] * (Math.cos(start) - Math.cos(end)) / (Math.PI * k);
+        }
+    }
+    return audioCtx.createPeriodicWave(real, imag);
+}
+
+function setLFOWaveform(oscillator: OscillatorNode, lfo: LFO) {
+    switch (lfo.settings.waveform) {
+        case LFOWaveform.Sine: oscillator.type = "sine"; break;
+        case LFOWaveform.Triangle: oscillator.type = "triangle"; break;
+        case LFOWaveform.Sawtooth: oscillator.type = "sawtooth"; break;
+        case LFOWaveform.Square: oscillator.type = "square"; break;
+        case LFOWaveform.SampleAndHold: oscillator.setPeriodicWave(lfo.wave!); break;
+    }
+}
+
+function calculateLFOFrequency(settings: LFOSettings, tempo: number): number {
+    const frequency = settings.sync ? tempo / (240 * settings.division) : settings.frequency;
+    return settings.waveform === LFOWaveform.SampleAndHold ? frequency / sampleAndHoldSteps : frequency;
+}
+
+// FM index at full FM amount
+const maxFMIndex = 8;
+
+function createPeriodicWave(audioCtx: BaseAudioContext, waveform: Waveform, phase: number = 0, pwm: number = 0): PeriodicWave {
     if (waveform === Waveform.Sine) {
         const phaseAngle = phase * 2 * Math.PI;
         return audioCtx.createPeriodicWave(new Float32Array([0, Math.cos(phaseAngle)]), new Float32Array([0, Math.sin(phaseAngle)]));
@@ -152,10 +494,96 @@ function createPeriodicWave(audioCtx: AudioContext, waveform: Waveform, phase: n
                 }
             }
             break;
+        case Waveform.Triangle:
+            for (let i = 1; i < size; i += 2) {
+                const coefficient = (i % 4 === 1 ? 8 : -8) / (i * i * Math.PI * Math.PI);
+                const phaseAngle = phase * 2 * Math.PI;
+                real[i] = -coefficient * Math.sin(i * phaseAngle);
+                imag[i] = coefficient * Math.cos(i * phaseAngle);
+            }
+            break;
+    }
+    return audioCtx.createPeriodicWave(real, imag);
+}
+
+// Most frames of a wavetable, each frame is an oscillator per voice
+const maxWavetableFrames = 16;
+
+/** Calculate the Fourier coefficients of a wavetable frame.
+ *
+ * @param frame Harmonic spectrum or samples of one cycle
+ * @returns Cosine (real) and sine (imag) coefficients, as used by PeriodicWave
+ */
+function calculateFrameSpectrum(frame: WavetableFrame): { real: Float32Array, imag: Float32Array } {
+    if ("harmonics" in frame) {
+        const size = Math.min(frame.harmonics.length + 1, 256);
+        const real = new Float32Array(size);
+        const imag = new Float32Array(size);
+        for (let i = 1; i < size; i++) {
+            const phaseAngle = (frame.phases?.[i - 1] ?? 0) * 2 * Math.PI;
+            real[i] = frame.harmonics[i - 1] * Math.sin(phaseAngle);
+            imag[i] = frame.harmonics[i - 1] * Math.cos(phaseAngle);
+        }
+        return { real, imag };
+    }
+    // Discrete Fourier transform, up to the Nyquist frequency of the cycle
+    const length = frame.samples.length;
+    const size = Math.min(Math.floor(length / 2) + 1, 256);
+    const real = new Float32Array(size);
+    const imag = new Float32Array(size);
+    for (let i = 1; i < size; i++) {
+        for (let j = 0; j < length; j++) {
+            const angle = 2 * Math.PI * i * j / length;
+            real[i] += frame.samples[j] * Math.cos(angle);
+            imag[i] += frame.samples[j] * Math.sin(angle);
+        }
+        real[i] *= 2 / length;
+        imag[i] *= 2 / length;
+    }
+    return { real, imag };
+}
+
+// Create a PeriodicWave from Fourier coefficients, shifted by a phase
+function createSpectrumWave(audioCtx: BaseAudioContext, spectrum: { real: Float32Array, imag: Float32Array }, phase: number): PeriodicWave {
+    const real = new Float32Array(spectrum.real.length);
+    const imag = new Float32Array(spectrum.imag.length);
+    for (let i = 1; i < real.length; i++) {
+        const phaseAngle = i * phase * 2 * Math.PI;
+        real[i] = spectrum.real[i] * Math.cos(phaseAngle) - spectrum.imag[i] * Math.sin(phaseAngle);
+        imag[i] = spectrum.imag[i] * Math.cos(phaseAngle) + spectrum.real[i] * Math.sin(phaseAngle);
     }
     return audioCtx.createPeriodicWave(real, imag);
 }
 
+/** Curve mapping wavetable position (0-1) to the crossfade gain of one frame.
+ *
+ * @param frames Number of frames
+ * @param frame Frame index
+ */
+function createFrameWeightCurve(frames: number, frame: number): Float32Array {
+    // Points at every half frame over positive input, exact at the frame positions
+    const steps = 2 * (frames - 1);
+    const curve = new Float32Array(2 * steps + 1);
+    for (let i = 0; i < curve.length; i++) {
+        const position = Math.max(i - steps, 0) / steps;
+        curve[i] = Math.max(0, 1 - Math.abs(position * (frames - 1) - frame));
+    }
+    return curve;
+}
+
+function applyVelocityCurve(velocity: number, curve: VelocityCurve): number {
+    switch (curve) {
+        case VelocityCurve.Linear: return velocity;
+        case VelocityCurve.Soft: return Math.sqrt(velocity);
+        case VelocityCurve.Hard: return velocity * velocity;
+    }
+}
+
+// Scale a value by velocity, a sensitivity of 0 ignores velocity
+function applyVelocitySensitivity(velocity: number, sensitivity: number): number {
+    return 1 - sensitivity + sensitivity * velocity;
+}
+
 function semitonesToMultiplier(semitones: number): number {
     return Math.pow(2, semitones / 12);
 }
@@ -170,6 +598,29 @@ function noteNumberToFilterValue(noteNumber: number): number {
     return ((noteNumber - middleC) / 12) * Math.log(2) / Math.log(1000);
 }
 
+// Convert a MIDI note number to a modulation value, centered at middle C
+function noteNumberToModulationValue(noteNumber: number): number {
+    const middleC = 60;
+    return (noteNumber - middleC) / 64;
+}
+
+// Modulation destination value at full modulation amount
+const modulationScale: Record<ModulationDestination, number> = {
+    [ModulationDestination.Pitch]: 1200, // cents
+    [ModulationDestination.Level]: 1,
+    [ModulationDestination.PWM]: 1,
+    [ModulationDestination.Cutoff]: 1,
+    [ModulationDestination.Resonance]: 26, // Q
+    [ModulationDestination.Pan]: 1,
+    [ModulationDestination.Amplitude]: 1,
+    [ModulationDestination.Position]: 1
+};
+
+function connectModulation(node: AudioNode, target: AudioNode | AudioParam) {
+    // connect() has separate overloads for nodes and params and does not accept the union
+    node.connect(target as AudioParam);
+}
+
 function softClipCurve(x: number): number {
     if (Math.abs(x) < 0.5) {
         return x;
@@ -181,11 +632,18 @@ function softClipCurve(x: number): number {
 
 /** Polyphonic synthesizer with analog-like features based on native Web Audio API nodes. */
 export class Synth {
-    private audioCtx: AudioContext;
+    private audioCtx: BaseAudioContext;
     private notes: Map<number, Note>;
-    private tuning: number;
+    private tuning: number; // A4 in Hz
+    private tuningTable?: Float64Array; // frequency of each MIDI note
     private previousNoteNumber?: number; // for glide
     private keyStack: number[]; // stack of pressed keys
+    private keyVelocities: Map<number, number>; // velocity of each pressed key
+    private sustain: boolean; // sustain pedal down
+    private sostenuto: boolean; // sostenuto pedal down
+    private sostenutoNotes: Set<number>; // keys held when the sostenuto pedal went down
+    private sustainedNotes: Set<number>; // notes released by their key, held by a pedal
+    private releasing: Set<Note>; // released notes replaced by a new note of their key or aborted later, until they end
 
     private envelopes: {
         amplitude: ADSR,
@@ -193,25 +651,69 @@ export class Synth {
     };
 
     private oscillatorSettings: OscillatorSettings[];
+    private noiseSettings: NoiseSettings;
+    private subSettings: SubOscillatorSettings;
     private filterSettings: {
+        type: FilterType;
+        slope: 12 | 24;                // dB/oct
         cutoff: ConstantSourceNode;    // 0-1
         resonance: ConstantSourceNode; // 0-1
         envelope: ConstantSourceNode;  // 0-1
         keyboard: ConstantSourceNode;  // 0-1
+        // values as applied, offset.value only updates on the next render quantum
+        values: { cutoff: number, resonance: number, envelope: number, keyboard: number };
+    };
+    private lfos: LFO[];
+    private tempo: number; // BPM
+    private pitchBend: ConstantSourceNode; // pitch bend multiplier
+    private pitchBendValue: number; // -1-1
+    private pitchBendRange: number; // semitones
+    private controllers: {
+        modWheel: number;   // 0-1
+        aftertouch: number; // 0-1
     };
-    private lfo: OscillatorNode;
-    private lfoGain: GainNode;
-    private lfoPitch: WaveShaperNode;
+    private controllerAmounts: {
+        modWheel: ControllerAmounts;
+        aftertouch: ControllerAmounts;
+    };
+    private controllerCutoff: ConstantSourceNode; // cutoff offset from controllers
+    private controllerSources: {
+        modWheel: ConstantSourceNode;   // 0-1
+        aftertouch: ConstantSourceNode; // 0-1
+    };
+    private modulation: ModulationSlot[];
+    private arpeggiator: Arpeggiator;
+    private sequencer: StepSequencer;
     private summingBus: GainNode; // summing bus for all oscillators
     private masterVolume: number; // dB
     private masterGain: GainNode;
+    private velocitySettings: {
+        amplitude: number; // 0-1
+        filter: number;    // 0-1
+        curve: VelocityCurve;
+    };
     private glide: number; // seconds
     private glide_always: boolean;
+    private phaseMode: PhaseMode;
+    private drift: {
+        cents: number;
+        depth: ConstantSourceNode;  // cents
+    };
+    private driftBuffer?: AudioBuffer;
     private mode: Mode;
+    private polyphony: number;
+    private voiceStealing: VoiceStealing;
+    private noteDistortion: DistortionParameters & { on: boolean };
     private softClipEnabled: boolean;
     private softClipGain: GainNode;
     private softClip: WaveShaperNode;
     private masterOutput: GainNode;
+    private chainPool: NoteChain[]; // idle note chains
+    private chainCount: number; // allocated note chains
+    private periodicWaves: Map<string, PeriodicWave>; // cache by waveform, pwm and phase
+    private noiseBuffers: Map<NoiseType, AudioBuffer>;
+    private syncLoaded: boolean; // hard sync and pulse processor available
+    private worklet?: AudioWorkletNode; // worklet engine, renders all notes when set
 
     /** Default preset. Is used as a fallback for applyPreset(). */
     static readonly defaultPreset: Preset = {
@@ -220,73 +722,157 @@ export class Synth {
             filter: { attack: 0, decay: 5, sustain: 1, release: 1, attackShape: 0, decayShape: -2, releaseShape: -5 }
         },
         oscillators: [
-            { on: true, volume: 0, semitones: 0, fine: 0, unison: 1, detune: 0, waveform: Waveform.Sawtooth, pwm: 0 },
-            { on: false, volume: 0, semitones: 0, fine: 0, unison: 1, detune: 0, waveform: Waveform.Sawtooth, pwm: 0 }
+            { on: true, volume: 0, semitones: 0, fine: 0, unison: 1, detune: 0, waveform: Waveform.Sawtooth, pwm: 0, wavetable: [], position: 0, fm: 0, ring: false, sync: false },
+            { on: false, volume: 0, semitones: 0, fine: 0, unison: 1, detune: 0, waveform: Waveform.Sawtooth, pwm: 0, wavetable: [], position: 0, fm: 0, ring: false, sync: false }
         ],
+        noise: { on: false, volume: 0, type: NoiseType.White },
+        sub: { on: false, volume: 0, octave: 1, waveform: Waveform.Square },
         filter: {
+            type: FilterType.Lowpass,
+            slope: 12,
             cutoff: 1,
             resonance: 0,
             envelope: 0,
             keyboard: 0
         },
+        velocity: {
+            amplitude: 1,
+            filter: 0,
+            curve: VelocityCurve.Linear
+        },
         glide: 0,
         glide_always: false,
+        phase: PhaseMode.Random,
+        drift: 0,
         mode: Mode.Poly,
-        lfoFrequency: 5,
-        lfoPitch: 0,
+        polyphony: 16,
+        voiceStealing: VoiceStealing.Released,
+        lfos: [
+            { waveform: LFOWaveform.Sine, frequency: 5, sync: false, division: 1 / 4, delay: 0, retrigger: false, pitch: 0, cutoff: 0, level: 0, pan: 0 },
+            { waveform: LFOWaveform.Sine, frequency: 5, sync: false, division: 1 / 4, delay: 0, retrigger: false, pitch: 0, cutoff: 0, level: 0, pan: 0 }
+        ],
+        tempo: 120,
+        pitchBendRange: 2,
+        modWheel: { pitch: 0, cutoff: 0 },
+        aftertouch: { pitch: 0, cutoff: 0 },
+        modulation: [],
+        arpeggiator: { on: false, order: ArpeggiatorOrder.Up, octaves: 1, division: 1 / 16, gate: 0.5, swing: 0, latch: false },
+        sequencer: {
+            on: false,
+            steps: Array.from({ length: 16 }, () => ({ note: 0, velocity: 1, tie: false, rest: false })),
+            division: 1 / 16,
+            gate: 0.5,
+            swing: 0
+        },
         fx: {
-            chorus: {
-                amount: 0,
-                mode: 0
-            },
+            chain: [
+                { type: "chorus", bypass: false, parameters: EffectChain.defaultParameters("chorus") }
+            ],
+            noteDistortion: { on: false, mix: 1, drive: 0.5, curve: DistortionCurve.SoftClip, bits: 16, downsample: 1, tone: 1 },
             softClip: true
         },
+        master: {
+            eq: { lowFrequency: 200, lowGain: 0, midFrequency: 1000, midGain: 0, midQ: 0.7, highFrequency: 5000, highGain: 0 },
+            compressor: { on: false, threshold: -12, knee: 6, ratio: 4, attack: 0.003, release: 0.25, makeup: 0 }
+        },
         masterVolume: -12
     };
 
     private valueToFrequencyLUT: Float32Array;
-    private octaveToMultiplierLUT: Float32Array;
 
     // FX
-    private chorus: Chorus;
+    private effects: EffectChain;
+    private master: MasterSection;
 
     /** Create Synth
      *
      * @param autoConnect Automatically connect to audioCtx.destination
      */
-    constructor(audioCtx: AudioContext, autoConnect = true) {
+    constructor(audioCtx: BaseAudioContext, autoConnect = true) {
         this.audioCtx = audioCtx;
         this.notes = new Map();
         this.tuning = 440;
         this.keyStack = [];
+        this.keyVelocities = new Map();
+        this.sustain = false;
+        this.sostenuto = false;
+        this.sostenutoNotes = new Set();
+        this.sustainedNotes = new Set();
+        this.releasing = new Set();
         this.envelopes = Synth.defaultPreset.envelopes;
         this.oscillatorSettings = [];
         this.oscillatorSettings.push(defaultOscillatorSettings(audioCtx, true));
         this.oscillatorSettings.push(defaultOscillatorSettings(audioCtx, false));
+        this.noiseSettings = {
+            on: Synth.defaultPreset.noise.on,
+            type: Synth.defaultPreset.noise.type,
+            gain: createConstantSource(audioCtx, dBToGain(Synth.defaultPreset.noise.volume)),
+            volume: Synth.defaultPreset.noise.volume
+        };
+        this.subSettings = {
+            on: Synth.defaultPreset.sub.on,
+            gain: createConstantSource(audioCtx, dBToGain(Synth.defaultPreset.sub.volume)),
+            volume: Synth.defaultPreset.sub.volume,
+            octave: Synth.defaultPreset.sub.octave,
+            pitch: createConstantSource(audioCtx, Math.pow(2, -Synth.defaultPreset.sub.octave)),
+            waveform: Synth.defaultPreset.sub.waveform
+        };
         this.filterSettings = {
+            type: Synth.defaultPreset.filter.type,
+            slope: Synth.defaultPreset.filter.slope,
             cutoff: createConstantSource(audioCtx, Synth.defaultPreset.filter.cutoff),
-            resonance: createConstantSource(audioCtx, resonanceToQ(Synth.defaultPreset.filter.resonance)),
+            resonance: createConstantSource(audioCtx, resonanceToQ(Synth.defaultPreset.filter.resonance, Synth.defaultPreset.filter.type)),
             envelope: createConstantSource(audioCtx, Synth.defaultPreset.filter.envelope),
-            keyboard: createConstantSource(audioCtx, Synth.defaultPreset.filter.keyboard)
+            keyboard: createConstantSource(audioCtx, Synth.defaultPreset.filter.keyboard),
+            values: {
+                cutoff: Synth.defaultPreset.filter.cutoff,
+                resonance: Synth.defaultPreset.filter.resonance,
+                envelope: Synth.defaultPreset.filter.envelope,
+                keyboard: Synth.defaultPreset.filter.keyboard
+            }
         };
+        this.velocitySettings = { ...Synth.defaultPreset.velocity };
         this.glide = 0; // seconds
         this.glide_always = false;
+        this.phaseMode = Synth.defaultPreset.phase;
+        this.drift = { cents: Synth.defaultPreset.drift, depth: createConstantSource(audioCtx, Synth.defaultPreset.drift) };
         this.mode = Synth.defaultPreset.mode;
-        this.lfo = audioCtx.createOscillator();
-        this.lfo.frequency.value = 5;
-        this.lfoGain = audioCtx.createGain();
-        this.lfoGain.gain.value = 0;
-        this.lfo.connect(this.lfoGain);
-        this.lfo.start();
+        this.polyphony = Synth.defaultPreset.polyphony;
+        this.voiceStealing = Synth.defaultPreset.voiceStealing;
+        this.lfos = [defaultLFO(audioCtx), defaultLFO(audioCtx)];
+        this.tempo = Synth.defaultPreset.tempo;
+        this.pitchBendValue = 0;
+        this.pitchBendRange = Synth.defaultPreset.pitchBendRange;
+        this.pitchBend = createConstantSource(audioCtx, 1);
+        this.controllers = { modWheel: 0, aftertouch: 0 };
+        this.controllerAmounts = {
+            modWheel: { ...Synth.defaultPreset.modWheel },
+            aftertouch: { ...Synth.defaultPreset.aftertouch }
+        };
+        this.controllerCutoff = createConstantSource(audioCtx, 0);
+        this.controllerSources = {
+            modWheel: createConstantSource(audioCtx, 0),
+            aftertouch: createConstantSource(audioCtx, 0)
+        };
+        this.modulation = [];
+        const patternOutput = {
+            noteOn: (noteNumber: number, velocity: number, when: number) => this.startNote(noteNumber, velocity, when),
+            noteOff: (noteNumber: number, when: number) => this.stopNote(noteNumber, when)
+        };
+        this.arpeggiator = new Arpeggiator(audioCtx, patternOutput, { ...Synth.defaultPreset.arpeggiator }, this.tempo);
+        this.sequencer = new StepSequencer(audioCtx, patternOutput, {
+            ...Synth.defaultPreset.sequencer,
+            steps: Synth.defaultPreset.sequencer.steps.map(step => ({ ...step }))
+        }, this.tempo);
         this.summingBus = audioCtx.createGain();
         this.summingBus.gain.value = 1;
         this.masterVolume = -12; // dB
         this.masterGain = audioCtx.createGain();
         this.masterGain.gain.value = dBToGain(this.masterVolume);
-        this.chorus = new Chorus(audioCtx);
-        this.summingBus.connect(this.chorus.input);
-        this.chorus.connect(this.masterGain);
-        this.summingBus.connect(this.masterGain);
+        this.effects = new EffectChain(audioCtx, Synth.defaultPreset.fx.chain);
+        this.summingBus.connect(this.effects.input);
+        this.effects.connect(this.masterGain);
+        this.noteDistortion = { ...Synth.defaultPreset.fx.noteDistortion };
         this.softClipEnabled = true;
         this.masterOutput = audioCtx.createGain();
         this.masterOutput.gain.value = 1;
@@ -297,7 +883,9 @@ export class Synth {
             softClipLUT[i] = softClipCurve((2 * i / (softClipLUT.length - 1) - 1) * 2);
         }
         this.softClip = new WaveShaperNode(audioCtx, { curve: softClipLUT, oversample: "4x" });
-        this.masterGain.connect(this.softClipGain);
+        this.master = new MasterSection(audioCtx, Synth.defaultPreset.master.eq, Synth.defaultPreset.master.compressor);
+        this.masterGain.connect(this.master.input);
+        this.master.connect(this.softClipGain);
         this.softClipGain.connect(this.softClip);
         this.softClip.connect(this.masterOutput);
         if (autoConnect) {
@@ -308,12 +896,12 @@ export class Synth {
         for (let i = 0; i < lutSize; ++i) {
             this.valueToFrequencyLUT[i] = valueToFrequency(2 * i / (lutSize - 1) - 1);
         }
-        this.octaveToMultiplierLUT = new Float32Array(lutSize);
-        for (let i = 0; i < lutSize; ++i) {
-            this.octaveToMultiplierLUT[i] = Math.pow(2, 2 * i / (lutSize - 1) - 1);
-        }
-        this.lfoPitch = new WaveShaperNode(this.audioCtx, { curve: this.octaveToMultiplierLUT });
-        this.lfoGain.connect(this.lfoPitch);
+        this.periodicWaves = new Map();
+        this.noiseBuffers = new Map();
+        this.syncLoaded = false;
+        this.chainPool = [];
+        this.chainCount = 0;
+        this.allocateChains(this.polyphony);
     }
 
     connect(destination: AudioNode): void {
@@ -324,9 +912,13 @@ export class Synth {
         this.masterOutput.disconnect();
     }
 
-    /** Apply a preset overwriting the current settings, unspecified settings are kept. */
-    applyPartialPreset(preset: PartialPreset) {
-        validatePreset(preset);
+    /** Apply a preset overwriting the current settings, unspecified settings are kept.
+     *
+     * @param preset Settings to change
+     * @param when Time of the change, in the time coordinate of the audio context. Defaults to now.
+     */
+    applyPartialPreset(preset: PartialPreset, when: number = this.audioCtx.currentTime) {
+        validatePreset(preset, this.effects);
         if (preset.envelopes) {
             if (preset.envelopes.amplitude) {
                 Object.assign(this.envelopes.amplitude, preset.envelopes.amplitude);
@@ -336,6 +928,9 @@ export class Synth {
             }
         }
         if (preset.oscillators) {
+            if (preset.oscillators.length !== this.oscillatorSettings.length) {
+                this.setOscillatorCount(preset.oscillators.length, when);
+            }
             for (let i = 0; i < preset.oscillators.length; i++) {
                 if (preset.oscillators[i]) {
                     let updatePitch = false;
@@ -352,7 +947,7 @@ export class Synth {
                         updatePitch = true;
                     }
                     if (updatePitch) {
-                        this.oscillatorSettings[i].pitch.offset.setValueAtTime(semitonesToMultiplier(this.oscillatorSettings[i].semitones + this.oscillatorSettings[i].fine / 100), this.audioCtx.currentTime);
+                        this.oscillatorSettings[i].pitch.offset.setValueAtTime(semitonesToMultiplier(this.oscillatorSettings[i].semitones + this.oscillatorSettings[i].fine / 100), when);
                     }
                     if (preset.oscillators[i]!.unison !== undefined) {
                         this.oscillatorSettings[i].unison = preset.oscillators[i]!.unison!;
@@ -367,81 +962,299 @@ export class Synth {
                     if (preset.oscillators[i]!.pwm !== undefined) {
                         this.oscillatorSettings[i].pwm = preset.oscillators[i]!.pwm!;
                     }
+                    if (preset.oscillators[i]!.wavetable !== undefined) {
+                        const wavetable = preset.oscillators[i]!.wavetable as WavetableFrame[];
+                        this.oscillatorSettings[i].wavetable = wavetable.map(frame => "harmonics" in frame ? { harmonics: [...frame.harmonics], phases: frame.phases && [...frame.phases] } : { samples: [...frame.samples] });
+                        this.oscillatorSettings[i].spectra = wavetable.map(calculateFrameSpectrum);
+                        this.oscillatorSettings[i].waves = wavetable.map(() => []);
+                    }
+                    if (preset.oscillators[i]!.position !== undefined) {
+                        this.oscillatorSettings[i].positionValue = preset.oscillators[i]!.position!;
+                        this.oscillatorSettings[i].position.offset.setValueAtTime(preset.oscillators[i]!.position!, when);
+                    }
+                    if (preset.oscillators[i]!.fm !== undefined) {
+                        this.oscillatorSettings[i].fmAmount = preset.oscillators[i]!.fm!;
+                        this.oscillatorSettings[i].fm.offset.setValueAtTime(preset.oscillators[i]!.fm! * maxFMIndex, when);
+                    }
+                    if (preset.oscillators[i]!.ring !== undefined) {
+                        this.oscillatorSettings[i].ring = preset.oscillators[i]!.ring!;
+                    }
+                    if (preset.oscillators[i]!.sync !== undefined) {
+                        this.oscillatorSettings[i].sync = preset.oscillators[i]!.sync!;
+                        if (this.oscillatorSettings[i].sync) {
+                            loadProcessor(this.audioCtx, syncProcessorCode).then(loaded => this.syncLoaded = loaded);
+                        }
+                    }
                     if (preset.oscillators[i]!.volume !== undefined) {
                         this.oscillatorSettings[i].gain = dBToGain(preset.oscillators[i]!.volume!);
                         updateGain = true;
                     }
                     if (updateGain) {
-                        this.oscillatorSettings[i].compound_gain.offset.setValueAtTime(this.oscillatorSettings[i].gain * calculateUnisonGain(this.oscillatorSettings[i].unison), this.audioCtx.currentTime);
+                        this.oscillatorSettings[i].compound_gain.offset.setValueAtTime(this.oscillatorSettings[i].gain * calculateUnisonGain(this.oscillatorSettings[i].unison), when);
                     }
                 }
             }
         }
+        if (preset.noise) {
+            if (preset.noise.on !== undefined) {
+                this.noiseSettings.on = preset.noise.on;
+            }
+            if (preset.noise.type !== undefined) {
+                this.noiseSettings.type = preset.noise.type;
+            }
+            if (preset.noise.volume !== undefined) {
+                this.noiseSettings.volume = preset.noise.volume;
+                this.noiseSettings.gain.offset.setValueAtTime(dBToGain(preset.noise.volume), when);
+            }
+        }
+        if (preset.sub) {
+            if (preset.sub.on !== undefined) {
+                this.subSettings.on = preset.sub.on;
+            }
+            if (preset.sub.octave !== undefined) {
+                this.subSettings.octave = preset.sub.octave;
+                this.subSettings.pitch.offset.setValueAtTime(Math.pow(2, -this.subSettings.octave), when);
+            }
+            if (preset.sub.waveform !== undefined) {
+                this.subSettings.waveform = preset.sub.waveform;
+            }
+            if (preset.sub.volume !== undefined) {
+                this.subSettings.volume = preset.sub.volume;
+                this.subSettings.gain.offset.setValueAtTime(dBToGain(preset.sub.volume), when);
+            }
+        }
         if (preset.filter) {
+            if (preset.filter.type !== undefined && preset.filter.type !== this.filterSettings.type) {
+                this.filterSettings.type = preset.filter.type;
+                this.filterSettings.resonance.offset.setValueAtTime(resonanceToQ(this.filterSettings.values.resonance, this.filterSettings.type), when);
+                for (const note of this.notes.values()) {
+                    note.filter.type = filterTypeToBiquadType(this.filterSettings.type);
+                    note.filter2.type = filterTypeToBiquadType(this.filterSettings.type);
+                }
+            }
+            if (preset.filter.slope !== undefined) {
+                this.filterSettings.slope = preset.filter.slope;
+            }
             if (preset.filter.cutoff !== undefined) {
-                this.filterSettings.cutoff.offset.setValueAtTime(preset.filter.cutoff, this.audioCtx.currentTime);
+                this.filterSettings.values.cutoff = preset.filter.cutoff;
+                this.filterSettings.cutoff.offset.setValueAtTime(preset.filter.cutoff, when);
             }
             if (preset.filter.resonance !== undefined) {
-                this.filterSettings.resonance.offset.setValueAtTime(resonanceToQ(preset.filter.resonance), this.audioCtx.currentTime);
+                this.filterSettings.values.resonance = preset.filter.resonance;
+                this.filterSettings.resonance.offset.setValueAtTime(resonanceToQ(preset.filter.resonance, this.filterSettings.type), when);
             }
             if (preset.filter.envelope !== undefined) {
-                this.filterSettings.envelope.offset.setValueAtTime(preset.filter.envelope, this.audioCtx.currentTime);
+                this.filterSettings.values.envelope = preset.filter.envelope;
+                this.filterSettings.envelope.offset.setValueAtTime(preset.filter.envelope, when);
             }
             if (preset.filter.keyboard !== undefined) {
-                this.filterSettings.keyboard.offset.setValueAtTime(preset.filter.keyboard, this.audioCtx.currentTime);
+                this.filterSettings.values.keyboard = preset.filter.keyboard;
+                this.filterSettings.keyboard.offset.setValueAtTime(preset.filter.keyboard, when);
             }
         }
+        if (preset.velocity) {
+            Object.assign(this.velocitySettings, preset.velocity);
+        }
         if (preset.glide !== undefined) {
             this.glide = preset.glide;
         }
         if (preset.glide_always !== undefined) {
             this.glide_always = preset.glide_always;
         }
+        if (preset.phase !== undefined) {
+            this.phaseMode = preset.phase;
+        }
+        if (preset.drift !== undefined) {
+            this.drift.cents = preset.drift;
+            this.drift.depth.offset.setValueAtTime(preset.drift, when);
+        }
         if (preset.mode !== undefined) {
             this.mode = preset.mode;
             if (this.mode !== Mode.Poly) {
                 for (let note of this.notes.values()) {
                     if (note.noteNumber !== this.keyStack[this.keyStack.length - 1]) {
-                        this.noteAbort(note.noteNumber);
+                        this.noteAbort(note.noteNumber, when);
+                    }
+                }
+                this.abortReleasingNotes();
+            }
+        }
+        if (preset.polyphony !== undefined) {
+            this.polyphony = preset.polyphony;
+            this.allocateChains(this.polyphony);
+        }
+        if (preset.voiceStealing !== undefined) {
+            this.voiceStealing = preset.voiceStealing;
+        }
+        if (preset.tempo !== undefined) {
+            this.tempo = preset.tempo;
+            this.effects.setTempo(preset.tempo, when);
+            this.arpeggiator.tempo = preset.tempo;
+            this.sequencer.tempo = preset.tempo;
+        }
+        if (preset.lfos) {
+            for (let i = 0; i < preset.lfos.length; i++) {
+                const lfo = preset.lfos[i];
+                if (!lfo) continue;
+                const waveform = this.lfos[i].settings.waveform;
+                Object.assign(this.lfos[i].settings, lfo);
+                if (lfo.waveform !== undefined && lfo.waveform !== waveform) {
+                    if (lfo.waveform === LFOWaveform.SampleAndHold) {
+                        this.lfos[i].wave = createSampleAndHoldWave(this.audioCtx);
                     }
+                    setLFOWaveform(this.lfos[i].oscillator, this.lfos[i]);
                 }
             }
         }
+        // Deprecated single LFO settings
         if (preset.lfoFrequency !== undefined) {
-            this.lfo.frequency.setValueAtTime(preset.lfoFrequency, this.audioCtx.currentTime);
+            this.lfos[0].settings.frequency = preset.lfoFrequency;
         }
         if (preset.lfoPitch !== undefined) {
-            this.lfoGain.gain.setValueAtTime(preset.lfoPitch, this.audioCtx.currentTime);
+            this.lfos[0].settings.pitch = preset.lfoPitch;
+        }
+        if (preset.lfos || preset.tempo !== undefined || preset.lfoFrequency !== undefined || preset.lfoPitch !== undefined) {
+            this.updateLFOs(when);
+        }
+        if (preset.modWheel) {
+            Object.assign(this.controllerAmounts.modWheel, preset.modWheel);
+            this.updateControllers(when);
+        }
+        if (preset.aftertouch) {
+            Object.assign(this.controllerAmounts.aftertouch, preset.aftertouch);
+            this.updateControllers(when);
+        }
+        if (preset.modulation !== undefined) {
+            this.modulation = preset.modulation.map(slot => ({ source: slot!.source!, destination: slot!.destination!, amount: slot!.amount ?? 0 }));
+            if (this.hasModulation(ModulationDestination.PWM)) {
+                loadProcessor(this.audioCtx, syncProcessorCode).then(loaded => this.syncLoaded = loaded);
+            }
+        }
+        if (preset.arpeggiator || preset.sequencer) {
+            const arpeggiatorOn = this.arpeggiator.settings.on;
+            const sequencerOn = this.sequencer.settings.on;
+            if (preset.arpeggiator) {
+                Object.assign(this.arpeggiator.settings, preset.arpeggiator);
+            }
+            if (preset.sequencer) {
+                const { steps, ...settings } = preset.sequencer;
+                Object.assign(this.sequencer.settings, settings);
+                if (steps) {
+                    // Steps replace the whole pattern
+                    this.sequencer.settings.steps = steps.map(step => ({ ...Synth.defaultPreset.sequencer.steps[0], ...step }));
+                }
+            }
+            if (this.arpeggiator.settings.on !== arpeggiatorOn || this.sequencer.settings.on !== sequencerOn) {
+                // Release notes played directly or by the previous pattern
+                this.arpeggiator.reset();
+                this.sequencer.reset();
+                for (let note of this.notes.values()) {
+                    if (!note.released) {
+                        this.stopNote(note.noteNumber, when);
+                    }
+                }
+            }
+            // Continue with the held keys
+            if (this.arpeggiator.settings.on) {
+                this.arpeggiator.setKeys(this.keyStack, undefined, when);
+            } else if (this.sequencer.settings.on) {
+                this.sequencer.setKeys(this.keyStack, when);
+            }
+        }
+        if (preset.pitchBendRange !== undefined) {
+            this.pitchBendRange = preset.pitchBendRange;
+            this.updatePitchBend(when);
         }
         if (preset.fx) {
-            if (preset.fx.chorus) {
-                if (preset.fx.chorus.amount !== undefined) {
-                    this.chorus.gain.setValueAtTime(preset.fx.chorus.amount, this.audioCtx.currentTime);
+            const current = this.effects.getSlots();
+            let slots = current;
+            if (preset.fx.chain) {
+                slots = preset.fx.chain.map((slot, i) => {
+                    const type = slot!.type ?? current[i].type;
+                    // Changed parameters of the same effect, or the defaults of a new effect
+                    const previous = current[i]?.type === type ? current[i] : undefined;
+                    return {
+                        type,
+                        bypass: slot!.bypass ?? previous?.bypass ?? false,
+                        parameters: { ...previous?.parameters ?? EffectChain.defaultParameters(type), ...slot!.parameters as EffectParameters }
+                    };
+                });
+            }
+            // Parameters of the first effect of each type
+            for (const type of ["chorus", "delay", "reverb"] as const) {
+                const parameters = preset.fx[type];
+                if (!parameters) continue;
+                let slot = slots.find(slot => slot.type === type);
+                if (!slot) {
+                    slot = { type, bypass: false, parameters: EffectChain.defaultParameters(type) };
+                    slots.push(slot);
                 }
-                if (preset.fx.chorus.mode !== undefined) {
-                    this.chorus.setMode(preset.fx.chorus.mode);
+                Object.assign(slot.parameters, parameters);
+            }
+            // Change the chain once, a rebuild crossfades only from the current effects
+            if (preset.fx.chain || preset.fx.chorus || preset.fx.delay || preset.fx.reverb) {
+                this.effects.setSlots(slots, when);
+            }
+            if (preset.fx.noteDistortion) {
+                Object.assign(this.noteDistortion, preset.fx.noteDistortion);
+                for (const note of this.notes.values()) {
+                    this.updateNoteDistortion(note, when);
                 }
-                if (preset.fx.softClip !== undefined && preset.fx.softClip !== this.softClipEnabled) {
-                    this.softClipEnabled = preset.fx.softClip;
-                    if (this.softClipEnabled) {
-                        this.masterGain.disconnect();
-                        this.masterGain.connect(this.softClipGain);
-                    } else {
-                        this.masterGain.disconnect();
-                        this.masterGain.connect(this.masterOutput);
-                    }
+            }
+            if (preset.fx.softClip !== undefined && preset.fx.softClip !== this.softClipEnabled) {
+                this.softClipEnabled = preset.fx.softClip;
+                if (this.softClipEnabled) {
+                    this.master.disconnect();
+                    this.master.connect(this.softClipGain);
+                } else {
+                    this.master.disconnect();
+                    this.master.connect(this.masterOutput);
                 }
             }
         }
+        if (preset.master) {
+            if (preset.master.eq) {
+                this.master.setEqualizer(preset.master.eq, when);
+            }
+            if (preset.master.compressor) {
+                this.master.setCompressor(preset.master.compressor, when);
+            }
+        }
         if (preset.masterVolume !== undefined) {
             this.masterVolume = preset.masterVolume;
-            this.masterGain.gain.setValueAtTime(dBToGain(this.masterVolume), this.audioCtx.currentTime);
+            this.masterGain.gain.setValueAtTime(dBToGain(this.masterVolume), when);
+        }
+        if (this.worklet) {
+            this.postEngineEvent({ type: "preset", time: when, preset: this.engineUpdate(preset) });
+        }
+    }
+
+    // Changed sections of the settings for the worklet engine, with the wavetables that changed
+    private engineUpdate(preset: PartialPreset): EnginePresetUpdate {
+        const exported = this.exportPreset();
+        const update: Record<string, unknown> = {};
+        for (const key of Object.keys(exported) as (keyof Preset)[]) {
+            if (preset[key] !== undefined) {
+                update[key] = exported[key];
+            }
+        }
+        if (preset.lfoFrequency !== undefined || preset.lfoPitch !== undefined) {
+            update.lfos = exported.lfos;
+        }
+        if (preset.oscillators) {
+            update.oscillators = exported.oscillators.map(({ wavetable, ...oscillator }, i) => preset.oscillators![i]?.wavetable !== undefined ? { ...oscillator, wavetable } : oscillator);
         }
+        return update as EnginePresetUpdate;
     }
 
-    /** Apply a preset overwriting the current settings, unspecified settings are reset to default. */
-    applyPreset(preset: PartialPreset) {
-        this.applyPartialPreset({ ...Synth.defaultPreset, ...preset });
+    /** Apply a preset overwriting the current settings, unspecified settings are reset to default.
+     *
+     * @param preset Settings to change
+     * @param when Time of the change, in the time coordinate of the audio context. Defaults to now.
+     */
+    applyPreset(preset: PartialPreset, when: number = this.audioCtx.currentTime) {
+        const fullPreset = { ...Synth.defaultPreset, ...preset, fx: { ...Synth.defaultPreset.fx, ...preset.fx }, master: { ...Synth.defaultPreset.master, ...preset.master } };
+        this.applyPartialPreset(fullPreset, when);
     }
 
     /** Export the current settings as a preset. */
@@ -453,62 +1266,440 @@ export class Synth {
             },
             oscillators: this.oscillatorSettings.map(settings => ({
                 on: settings.on,
-                volume: gainTodB(settings.compound_gain.offset.value),
+                volume: gainTodB(settings.gain),
                 semitones: settings.semitones,
                 fine: settings.fine,
                 unison: settings.unison,
                 detune: settings.detune,
                 waveform: settings.waveform,
-                pwm: settings.pwm
+                pwm: settings.pwm,
+                wavetable: settings.wavetable.map(frame => "harmonics" in frame ? { harmonics: [...frame.harmonics], phases: frame.phases && [...frame.phases] } : { samples: [...frame.samples] }),
+                position: settings.positionValue,
+                fm: settings.fmAmount,
+                ring: settings.ring,
+                sync: settings.sync
             })),
+            noise: {
+                on: this.noiseSettings.on,
+                volume: this.noiseSettings.volume,
+                type: this.noiseSettings.type
+            },
+            sub: {
+                on: this.subSettings.on,
+                volume: this.subSettings.volume,
+                octave: this.subSettings.octave,
+                waveform: this.subSettings.waveform
+            },
             filter: {
-                cutoff: this.filterSettings.cutoff.offset.value,
-                resonance: QToResonance(this.filterSettings.resonance.offset.value),
-                envelope: this.filterSettings.envelope.offset.value,
-                keyboard: this.filterSettings.keyboard.offset.value
+                type: this.filterSettings.type,
+                slope: this.filterSettings.slope,
+                ...this.filterSettings.values
             },
+            velocity: { ...this.velocitySettings },
             glide: this.glide,
             glide_always: this.glide_always,
+            phase: this.phaseMode,
+            drift: this.drift.cents,
             mode: this.mode,
-            lfoFrequency: this.lfo.frequency.value,
-            lfoPitch: this.lfoGain.gain.value,
+            polyphony: this.polyphony,
+            voiceStealing: this.voiceStealing,
+            lfos: this.lfos.map(lfo => ({ ...lfo.settings })),
+            tempo: this.tempo,
+            pitchBendRange: this.pitchBendRange,
+            modWheel: { ...this.controllerAmounts.modWheel },
+            aftertouch: { ...this.controllerAmounts.aftertouch },
+            modulation: this.modulation.map(slot => ({ ...slot })),
+            arpeggiator: { ...this.arpeggiator.settings },
+            sequencer: {
+                ...this.sequencer.settings,
+                steps: this.sequencer.settings.steps.map(step => ({ ...step }))
+            },
             fx: {
-                chorus: {
-                    amount: this.chorus.gain.value,
-                    mode: this.chorus.getMode()
-                },
+                chain: this.effects.getSlots(),
+                noteDistortion: { ...this.noteDistortion },
                 softClip: this.softClipEnabled
             },
+            master: {
+                eq: this.master.getEqualizer(),
+                compressor: this.master.getCompressor()
+            },
             masterVolume: this.masterVolume
         };
     }
 
+    /** Bend the pitch of all notes.
+     *
+     * @param value Pitch bend (-1-1), scaled by the pitch bend range
+     * @param when Time of the change, in the time coordinate of the audio context. Defaults to now.
+     */
+    setPitchBend(value: number, when: number = this.audioCtx.currentTime) {
+        assert(value >= -1 && value <= 1, "Pitch bend must be between -1 and 1");
+        this.pitchBendValue = value;
+        this.updatePitchBend(when);
+    }
+
+    private updatePitchBend(when: number) {
+        // Smooth transition to avoid zipper noise from coarse controller steps
+        this.pitchBend.offset.setTargetAtTime(semitonesToMultiplier(this.pitchBendValue * this.pitchBendRange), when, 0.005);
+        this.postEngineEvent({ type: "pitchBend", time: when, value: semitonesToMultiplier(this.pitchBendValue * this.pitchBendRange) });
+    }
+
+    /** Set the master tuning of equal temperament. Does not affect tuning tables.
+     *
+     * @param frequency Frequency of A4 in Hz
+     */
+    setMasterTuning(frequency: number) {
+        assert(frequency > 0, "Tuning must be positive");
+        this.tuning = frequency;
+        this.retune();
+    }
+
+    /** Get the master tuning, the frequency of A4 in Hz. */
+    getMasterTuning(): number {
+        return this.tuning;
+    }
+
+    /** Select the voice engine. Sounding notes are aborted.
+     *
+     * The worklet engine renders all notes in a single AudioWorklet processor, with the same presets and methods.
+     * Effects and the master output are shared by both engines.
+     * @param engine Voice engine
+     * @returns Resolves when the engine is active, rejects if AudioWorklet is unavailable
+     */
+    async setEngine(engine: Engine) {
+        if (engine === Engine.Worklet) {
+            const loaded = await loadProcessor(this.audioCtx, engineProcessorCode);
+            assert(loaded, "AudioWorklet is not available");
+            if (this.worklet) return;
+            for (let note of this.notes.values()) {
+                this.noteAbort(note.noteNumber);
+            }
+            this.worklet = new AudioWorkletNode(this.audioCtx, engineProcessorName, {
+                numberOfInputs: 0,
+                outputChannelCount: [2],
+                processorOptions: { preset: this.exportPreset(), frequencies: this.noteFrequencies() }
+            });
+            this.worklet.connect(this.summingBus);
+            this.updatePitchBend(this.audioCtx.currentTime);
+            this.updateControllers(this.audioCtx.currentTime);
+        } else if (this.worklet) {
+            this.worklet.port.postMessage({ type: "stop" });
+            this.worklet.disconnect();
+            this.worklet = undefined;
+        }
+    }
+
+    /** Register an effect type for the slots of the effects chain.
+     *
+     * @param type Effect type in `Preset.fx.chain`
+     * @param create Create an effect, with the interface of the built-in chorus
+     */
+    registerEffect(type: string, create: EffectFactory) {
+        this.effects.register(type, create);
+    }
+
+    /** Get the voice engine. */
+    getEngine(): Engine {
+        return this.worklet ? Engine.Worklet : Engine.Nodes;
+    }
+
+    /** Get the current gain reduction of the master compressor in dB, for metering. */
+    getCompressorReduction(): number {
+        return this.master.getReduction();
+    }
+
+    /** Set a custom tuning, replacing equal temperament.
+     *
+     * @param table Frequency in Hz for each of the 128 MIDI notes, NaN for unmapped notes. Undefined restores equal temperament.
+     */
+    setTuningTable(table?: ArrayLike<number>) {
+        if (table) {
+            assert(table.length === 128, "Tuning table must have 128 entries");
+            for (let i = 0; i < table.length; i++) {
+                assert(isNaN(table[i]) || table[i] > 0, "Tuning table frequencies must be positive");
+            }
+            this.tuningTable = Float64Array.from(table);
+        } else {
+            this.tuningTable = undefined;
+        }
+        this.retune();
+    }
+
+    // Frequency of each MIDI note, NaN for unmapped notes
+    private noteFrequencies(): number[] {
+        return Array.from({ length: 128 }, (_, noteNumber) => this.noteNumberToFrequency(noteNumber));
+    }
+
+    private noteNumberToFrequency(noteNumber: number): number {
+        if (this.tuningTable) {
+            return this.tuningTable[noteNumber];
+        }
+        return noteNumberToFrequency(noteNumber, this.tuning);
+    }
+
+    // Update the pitch of sounding notes after a tuning change
+    private retune() {
+        if (this.previousNoteNumber !== undefined && !isFinite(this.noteNumberToFrequency(this.previousNoteNumber))) {
+            // No glide from unmapped notes
+            this.previousNoteNumber = undefined;
+        }
+        this.postEngineEvent({ type: "tuning", time: this.audioCtx.currentTime, frequencies: this.noteFrequencies() });
+        for (const note of this.notes.values()) {
+            const frequency = this.noteNumberToFrequency(note.noteNumber);
+            if (isFinite(frequency)) {
+                note.frequency.offset.cancelScheduledValues(this.audioCtx.currentTime);
+                note.frequency.offset.setValueAtTime(frequency, this.audioCtx.currentTime);
+            }
+        }
+    }
+
+    /** Set the mod wheel position.
+     *
+     * @param value Mod wheel (0-1)
+     * @param when Time of the change, in the time coordinate of the audio context. Defaults to now.
+     */
+    setModWheel(value: number, when: number = this.audioCtx.currentTime) {
+        assert(value >= 0 && value <= 1, "Mod wheel must be between 0 and 1");
+        this.controllers.modWheel = value;
+        this.updateControllers(when);
+    }
+
+    /** Set the channel pressure (aftertouch).
+     *
+     * @param value Pressure (0-1)
+     * @param when Time of the change, in the time coordinate of the audio context. Defaults to now.
+     */
+    setAftertouch(value: number, when: number = this.audioCtx.currentTime) {
+        assert(value >= 0 && value <= 1, "Aftertouch must be between 0 and 1");
+        this.controllers.aftertouch = value;
+        this.updateControllers(when);
+    }
+
+    private updateLFOs(when: number) {
+        const { modWheel, aftertouch } = this.controllers;
+        for (let i = 0; i < this.lfos.length; i++) {
+            const { settings, frequency, depths } = this.lfos[i];
+            let pitch = settings.pitch;
+            if (i === 0) {
+                // Controllers add vibrato to the first LFO
+                pitch = Math.min(pitch + modWheel * this.controllerAmounts.modWheel.pitch + aftertouch * this.controllerAmounts.aftertouch.pitch, 1);
+            }
+            frequency.offset.setValueAtTime(calculateLFOFrequency(settings, this.tempo), when);
+            depths.pitch.offset.setTargetAtTime(pitch * modulationScale[ModulationDestination.Pitch], when, 0.005);
+            depths.cutoff.offset.setTargetAtTime(settings.cutoff, when, 0.005);
+            depths.level.offset.setTargetAtTime(settings.level, when, 0.005);
+            depths.pan.offset.setTargetAtTime(settings.pan, when, 0.005);
+        }
+    }
+
+    private updateControllers(when: number) {
+        const { modWheel, aftertouch } = this.controllers;
+        const cutoff = modWheel * this.controllerAmounts.modWheel.cutoff + aftertouch * this.controllerAmounts.aftertouch.cutoff;
+        this.updateLFOs(when);
+        this.controllerCutoff.offset.setTargetAtTime(cutoff, when, 0.005);
+        this.controllerSources.modWheel.offset.setTargetAtTime(modWheel, when, 0.005);
+        this.controllerSources.aftertouch.offset.setTargetAtTime(aftertouch, when, 0.005);
+        this.postEngineEvent({ type: "controllers", time: when, modWheel, aftertouch });
+    }
+
+    private hasModulation(destination: ModulationDestination): boolean {
+        return this.modulation.some(slot => slot.destination === destination);
+    }
+
+    // Create the modulation routes of a note
+    private createModulation(noteNumber: number, velocity: number, lfos: NoteLFO[], destinations: Record<ModulationDestination, (AudioNode | AudioParam)[]>, when: number): NoteModulation {
+        const constant = createConstantSource(this.audioCtx, 1);
+        const modulation: NoteModulation = { constant, envelopes: {}, routes: [] };
+        if (this.hasModulation(ModulationDestination.Amplitude)) {
+            modulation.amplitude = this.audioCtx.createGain();
+            modulation.amplitude.gain.value = 1;
+            destinations[ModulationDestination.Amplitude].push(modulation.amplitude.gain);
+        }
+        for (const slot of this.modulation) {
+            const gain = this.audioCtx.createGain();
+            gain.gain.value = slot.amount * modulationScale[slot.destination];
+            switch (slot.source) {
+                case ModulationSource.LFO:
+                    lfos[0].fade.connect(gain);
+                    break;
+                case ModulationSource.LFO2:
+                    lfos[1].fade.connect(gain);
+                    break;
+                case ModulationSource.AmplitudeEnvelope:
+                    if (!modulation.envelopes.amplitude) {
+                        modulation.envelopes.amplitude = this.audioCtx.createGain();
+                        scheduleEnvelope(modulation.envelopes.amplitude.gain, this.envelopes.amplitude, 1, when);
+                        constant.connect(modulation.envelopes.amplitude);
+                    }
+                    modulation.envelopes.amplitude.connect(gain);
+                    break;
+                case ModulationSource.FilterEnvelope:
+                    if (!modulation.envelopes.filter) {
+                        modulation.envelopes.filter = this.audioCtx.createGain();
+                        scheduleEnvelope(modulation.envelopes.filter.gain, this.envelopes.filter, 1, when);
+                        constant.connect(modulation.envelopes.filter);
+                    }
+                    modulation.envelopes.filter.connect(gain);
+                    break;
+                case ModulationSource.Velocity:
+                    gain.gain.value *= velocity;
+                    constant.connect(gain);
+                    break;
+                case ModulationSource.NoteNumber:
+                    gain.gain.value *= noteNumberToModulationValue(noteNumber);
+                    constant.connect(gain);
+                    break;
+                case ModulationSource.ModWheel:
+                    this.controllerSources.modWheel.connect(gain);
+                    break;
+                case ModulationSource.Aftertouch:
+                    this.controllerSources.aftertouch.connect(gain);
+                    break;
+            }
+            for (const target of destinations[slot.destination]) {
+                connectModulation(gain, target);
+            }
+            modulation.routes.push({ ...slot, gain });
+        }
+        return modulation;
+    }
+
+    // Create the LFO of a note, connected to its destinations
+    private createNoteLFO(lfo: LFO, destinations: Record<ModulationDestination, (AudioNode | AudioParam)[]>, when: number): NoteLFO {
+        const fade = this.audioCtx.createGain();
+        if (lfo.settings.delay > 0) {
+            fade.gain.setValueAtTime(0, when);
+            fade.gain.linearRampToValueAtTime(1, when + lfo.settings.delay);
+        }
+        let oscillator;
+        if (lfo.settings.retrigger) {
+            oscillator = this.audioCtx.createOscillator();
+            setLFOWaveform(oscillator, lfo);
+            oscillator.frequency.value = 0;
+            lfo.frequency.connect(oscillator.frequency);
+            oscillator.connect(fade);
+            oscillator.start(when);
+        } else {
+            lfo.oscillator.connect(fade);
+        }
+        const createDepth = (depth: ConstantSourceNode, destination: ModulationDestination) => {
+            const gain = this.audioCtx.createGain();
+            gain.gain.value = 0;
+            depth.connect(gain.gain);
+            fade.connect(gain);
+            for (const target of destinations[destination]) {
+                connectModulation(gain, target);
+            }
+            return gain;
+        };
+        return {
+            oscillator,
+            fade,
+            depths: {
+                pitch: createDepth(lfo.depths.pitch, ModulationDestination.Pitch),
+                cutoff: createDepth(lfo.depths.cutoff, ModulationDestination.Cutoff),
+                level: createDepth(lfo.depths.level, ModulationDestination.Level),
+                pan: createDepth(lfo.depths.pan, ModulationDestination.Pan)
+            }
+        };
+    }
+
+    private disconnectNoteLFO(lfo: LFO, noteLFO: NoteLFO) {
+        if (noteLFO.oscillator) {
+            noteLFO.oscillator.stop();
+            noteLFO.oscillator.disconnect();
+            lfo.frequency.disconnect(noteLFO.oscillator.frequency);
+        } else {
+            lfo.oscillator.disconnect(noteLFO.fade);
+        }
+        noteLFO.fade.disconnect();
+        for (const key of ["pitch", "cutoff", "level", "pan"] as const) {
+            noteLFO.depths[key].disconnect();
+            lfo.depths[key].disconnect(noteLFO.depths[key].gain);
+        }
+    }
+
+    // Release the envelope sources of a note
+    private releaseModulation(note: Note, modulation: NoteModulation, when: number) {
+        for (const [key, source] of [["amplitude", ModulationSource.AmplitudeEnvelope], ["filter", ModulationSource.FilterEnvelope]] as const) {
+            const envelope = modulation.envelopes[key];
+            if (!envelope) continue;
+            const settings = this.envelopes[key];
+            const currentValue = this.envelopeValueAtTime(envelope.gain, settings, 1, note.startTime, when);
+            if (!scheduleRelease(envelope.gain, settings, currentValue, when)) {
+                // Fallback for Firefox
+                const new_envelope = this.audioCtx.createGain();
+                new_envelope.gain.value = currentValue;
+                scheduleRelease(new_envelope.gain, settings, currentValue, when);
+                modulation.constant.connect(new_envelope);
+                for (const route of modulation.routes) {
+                    if (route.source === source) {
+                        new_envelope.connect(route.gain);
+                    }
+                }
+                envelope.disconnect();
+                modulation.envelopes[key] = new_envelope;
+            }
+        }
+    }
+
+    // Envelope value at the start of a release, computed for releases scheduled ahead
+    private envelopeValueAtTime(param: AudioParam, envelope: ADSR, peak: number, startTime: number, when: number): number {
+        if (when > this.audioCtx.currentTime) {
+            return calculateEnvelopeValue(envelope, peak, when - startTime);
+        }
+        return param.value;
+    }
+
+    private disconnectModulation(modulation: NoteModulation) {
+        modulation.constant.stop();
+        modulation.constant.disconnect();
+        modulation.envelopes.amplitude?.disconnect();
+        modulation.envelopes.filter?.disconnect();
+        for (const route of modulation.routes) {
+            route.gain.disconnect();
+            if (route.source === ModulationSource.ModWheel) {
+                this.controllerSources.modWheel.disconnect(route.gain);
+            } else if (route.source === ModulationSource.Aftertouch) {
+                this.controllerSources.aftertouch.disconnect(route.gain);
+            }
+        }
+        modulation.amplitude?.disconnect();
+    }
+
     // Handle legato transitions
-    private noteOnLegato(noteNumber: number): boolean {
+    private noteOnLegato(noteNumber: number, velocity: number, when: number): boolean {
+        if (this.worklet) {
+            // The worklet engine continues its playing note
+            this.postEngineEvent({ type: "noteOn", time: when, noteNumber, velocity });
+            this.previousNoteNumber = noteNumber;
+            return true;
+        }
         if (this.notes.size > 0) {
             let foundNote;
             for (let note of this.notes.values()) {
                 if (foundNote === undefined && !note.released) {
                     foundNote = note;
                 } else {
-                    this.noteAbort(note.noteNumber);
+                    this.noteAbort(note.noteNumber, when);
                 }
             }
             if (foundNote) {
                 const note = foundNote;
-                const previousFrequency = note.frequency.offset.value;
-                const previousKeyboard = note.filter_keyboard.gain.value;
-                note.frequency.offset.cancelScheduledValues(this.audioCtx.currentTime);
-                note.filter_keyboard.gain.cancelScheduledValues(this.audioCtx.currentTime);
+                holdValueAtTime(note.frequency.offset, when);
+                holdValueAtTime(note.filter_keyboard.gain, when);
                 if (this.glide > 0) {
-                    note.frequency.offset.setValueAtTime(previousFrequency, this.audioCtx.currentTime);
-                    const thisFrequency = noteNumberToFrequency(noteNumber, this.tuning);
-                    note.frequency.offset.exponentialRampToValueAtTime(thisFrequency, this.audioCtx.currentTime + this.glide);
-                    note.filter_keyboard.gain.setValueAtTime(previousKeyboard, this.audioCtx.currentTime);
-                    note.filter_keyboard.gain.linearRampToValueAtTime(noteNumberToFilterValue(noteNumber), this.audioCtx.currentTime + this.glide);
+                    const thisFrequency = this.noteNumberToFrequency(noteNumber);
+                    note.frequency.offset.exponentialRampToValueAtTime(thisFrequency, when + this.glide);
+                    note.filter_keyboard.gain.linearRampToValueAtTime(noteNumberToFilterValue(noteNumber), when + this.glide);
                 } else {
-                    note.frequency.offset.setValueAtTime(noteNumberToFrequency(noteNumber, this.tuning), this.audioCtx.currentTime);
-                    note.filter_keyboard.gain.setValueAtTime(noteNumberToFilterValue(noteNumber), this.audioCtx.currentTime);
+                    note.frequency.offset.setValueAtTime(this.noteNumberToFrequency(noteNumber), when);
+                    note.filter_keyboard.gain.setValueAtTime(noteNumberToFilterValue(noteNumber), when);
+                }
+                for (const route of note.modulation?.routes ?? []) {
+                    if (route.source === ModulationSource.NoteNumber) {
+                        route.gain.gain.setValueAtTime(route.amount * modulationScale[route.destination] * noteNumberToModulationValue(noteNumber), when);
+                    }
                 }
                 const previousNoteNumber = note.noteNumber;
                 note.noteNumber = noteNumber;
@@ -525,243 +1716,820 @@ export class Synth {
      *
      * @param noteNumber MIDI note number
      * @param velocity Note velocity (0-1)
+     * @param when Time of the note on, in the time coordinate of the audio context. Defaults to now.
      */
-    noteOn(noteNumber: number, velocity: number = 1) {
+    noteOn(noteNumber: number, velocity: number = 1, when: number = this.audioCtx.currentTime) {
         if (velocity === 0) {
-            this.noteOff(noteNumber);
+            this.noteOff(noteNumber, when);
+            return;
+        }
+        if (!isFinite(this.noteNumberToFrequency(noteNumber))) {
+            // Unmapped in the tuning table
             return;
         }
         this.keyStack = this.keyStack.filter(key => key !== noteNumber);
         this.keyStack.push(noteNumber);
-        // Handle legato mode
-        if (this.mode == Mode.Legato && this.noteOnLegato(noteNumber)) {
+        this.keyVelocities.set(noteNumber, velocity);
+        if (this.arpeggiator.settings.on) {
+            this.arpeggiator.setKeys(this.keyStack, velocity, when);
+        } else if (this.sequencer.settings.on) {
+            this.sequencer.setKeys(this.keyStack, when);
+        } else {
+            if (this.sustainedNotes.delete(noteNumber) && this.mode == Mode.Poly) {
+                // Let the sustained note release under the new note instead of cutting it off
+                this.stopNote(noteNumber, when);
+                this.keepReleasing(noteNumber);
+            }
+            this.startNote(noteNumber, velocity, when);
+        }
+    }
+
+    // Start a note, from a key or a pattern
+    private startNote(noteNumber: number, velocity: number, when: number) {
+        if (!isFinite(this.noteNumberToFrequency(noteNumber))) {
             return;
         }
-        // TODO: This should instead reuse the oscillators
-        const gain = this.audioCtx.createGain();
-        if (this.envelopes.amplitude.attack > 0) {
-            gain.gain.value = 0;
-            gain.gain.setValueCurveAtTime(calculateEnvelopeCurveArray(0, velocity, this.envelopes.amplitude.attackShape), this.audioCtx.currentTime, this.envelopes.amplitude.attack);
-        } else {
-            gain.gain.value = velocity;
+        if (this.worklet) {
+            this.postEngineEvent({ type: "noteOn", time: when, noteNumber, velocity });
+            this.previousNoteNumber = noteNumber;
+            return;
         }
-        if (this.envelopes.amplitude.decay > 0) {
-            gain.gain.setValueCurveAtTime(calculateEnvelopeCurveArray(velocity, velocity * this.envelopes.amplitude.sustain, this.envelopes.amplitude.decayShape), this.audioCtx.currentTime + this.envelopes.amplitude.attack, this.envelopes.amplitude.decay);
-        } else {
-            gain.gain.setValueAtTime(velocity * this.envelopes.amplitude.sustain, this.audioCtx.currentTime + this.envelopes.amplitude.attack);
+        // Handle legato mode
+        if (this.mode == Mode.Legato && this.noteOnLegato(noteNumber, velocity, when)) {
+            return;
         }
-        const frequency = createConstantSource(this.audioCtx, noteNumberToFrequency(noteNumber, this.tuning));
-        const pitch = this.audioCtx.createGain();
-        pitch.gain.value = 0;
-        this.lfoPitch.connect(pitch.gain);
-        frequency.connect(pitch);
+        const chain = this.chainPool.pop() ?? this.createChain();
+        this.connectChain(chain, true);
+        this.updateNoteDistortion(chain, when);
+        const { gain, filter, filter2, filter_cutoff, filter_envelope, filter_keyboard, frequency, bend } = chain;
+        velocity = applyVelocityCurve(velocity, this.velocitySettings.curve);
+        const amplitudePeak = applyVelocitySensitivity(velocity, this.velocitySettings.amplitude);
+        scheduleEnvelope(gain.gain, this.envelopes.amplitude, amplitudePeak, when);
+        frequency.offset.value = this.noteNumberToFrequency(noteNumber);
         if (this.glide > 0 && this.previousNoteNumber !== undefined) {
-            const previousFrequency = noteNumberToFrequency(this.previousNoteNumber, this.tuning);
-            const thisFrequency = noteNumberToFrequency(noteNumber, this.tuning);
-            frequency.offset.value = previousFrequency;
-            frequency.offset.exponentialRampToValueAtTime(thisFrequency, this.audioCtx.currentTime + this.glide);
+            const previousFrequency = this.noteNumberToFrequency(this.previousNoteNumber);
+            const thisFrequency = this.noteNumberToFrequency(noteNumber);
+            frequency.offset.setValueAtTime(previousFrequency, when);
+            frequency.offset.exponentialRampToValueAtTime(thisFrequency, when + this.glide);
         }
+        const destinations: Record<ModulationDestination, (AudioNode | AudioParam)[]> = {
+            [ModulationDestination.Pitch]: [],
+            [ModulationDestination.Level]: [],
+            [ModulationDestination.PWM]: [],
+            [ModulationDestination.Cutoff]: [],
+            [ModulationDestination.Resonance]: [],
+            [ModulationDestination.Pan]: [],
+            [ModulationDestination.Amplitude]: [],
+            [ModulationDestination.Position]: []
+        };
+        const modulatePulseWidth = this.hasModulation(ModulationDestination.PWM);
         const oscillators = [];
-        for (let settings of this.oscillatorSettings) {
+        let modulator: { oscillator: OscillatorNode, frequency: GainNode } | undefined; // first oscillator, for cross-modulation
+        for (let [index, settings] of this.oscillatorSettings.entries()) {
             if (!settings.on) { continue; }
             const voices = [];
             const oscillator_gain = this.audioCtx.createGain();
             oscillator_gain.gain.value = 0;
             settings.compound_gain.connect(oscillator_gain.gain);
-            oscillator_gain.connect(gain);
+            let ring: GainNode | undefined;
+            if (index > 0 && settings.ring && modulator) {
+                ring = this.audioCtx.createGain();
+                ring.gain.value = 0;
+                modulator.oscillator.connect(ring.gain);
+                oscillator_gain.connect(ring);
+                ring.connect(gain);
+            } else {
+                oscillator_gain.connect(gain);
+            }
             const oscillator_frequency = this.audioCtx.createGain();
             oscillator_frequency.gain.value = 0;
             settings.pitch.connect(oscillator_frequency.gain);
-            pitch.connect(oscillator_frequency);
+            bend.connect(oscillator_frequency);
+            destinations[ModulationDestination.Level].push(oscillator_gain.gain);
+            let fm: { index: GainNode, depth: GainNode } | undefined;
+            if (index > 0 && modulator) {
+                // Frequency deviation is the modulation index times the modulator frequency
+                fm = { index: this.audioCtx.createGain(), depth: this.audioCtx.createGain() };
+                fm.index.gain.value = 0;
+                settings.fm.connect(fm.index.gain);
+                modulator.frequency.connect(fm.index);
+                fm.depth.gain.value = 0;
+                fm.index.connect(fm.depth.gain);
+                modulator.oscillator.connect(fm.depth);
+            }
+            let sync_frequency: GainNode | undefined;
+            if (index > 0 && settings.sync && this.syncLoaded && settings.waveform !== Waveform.Custom) {
+                sync_frequency = this.audioCtx.createGain();
+                sync_frequency.gain.value = 0;
+                this.oscillatorSettings[0].pitch.connect(sync_frequency.gain);
+                bend.connect(sync_frequency);
+            }
+            // Square waves with modulated pulse width are rendered by the sync processor without a master
+            const pulse = modulatePulseWidth && settings.waveform === Waveform.Square && this.syncLoaded;
+            const frequencies: AudioParam[] = []; // FM targets
+            const custom = settings.waveform === Waveform.Custom && settings.spectra.length > 0;
+            let position: GainNode | undefined;
+            let weights: WaveShaperNode[] | undefined;
+            if (custom && settings.spectra.length > 1) {
+                // Scan the wavetable by crossfading between neighboring frames
+                position = this.audioCtx.createGain();
+                settings.position.connect(position);
+                destinations[ModulationDestination.Position].push(position);
+                weights = settings.spectra.map((_, frame) => {
+                    const weight = new WaveShaperNode(this.audioCtx, { curve: createFrameWeightCurve(settings.spectra.length, frame) });
+                    position!.connect(weight);
+                    return weight;
+                });
+            }
             for (let i = 0; i < settings.unison; i++) {
                 const panner = this.audioCtx.createStereoPanner();
                 panner.pan.value = settings.unison > 1 ? i / (settings.unison - 1) * 2 - 1 : 0;
                 const oscillator = this.audioCtx.createOscillator();
-                oscillator.setPeriodicWave(createPeriodicWave(this.audioCtx, settings.waveform, Math.random(), settings.pwm));
                 oscillator.frequency.value = 0;
-                oscillator_frequency.connect(oscillator.frequency);
-                oscillator.detune.value = calculateDetune(settings.unison, i) * settings.detune;
-                oscillator.connect(panner);
+                (sync_frequency ?? oscillator_frequency).connect(oscillator.frequency);
+                const detune = calculateDetune(settings.unison, i) * settings.detune;
+                oscillator.detune.value = sync_frequency ? 0 : detune;
+                const voiceFrequency = this.noteNumberToFrequency(noteNumber) * semitonesToMultiplier(settings.semitones + (settings.fine + detune) / 100);
+                const phase = this.startPhase(voiceFrequency, when);
                 panner.connect(oscillator_gain);
-                oscillator.start();
-                voices.push({ oscillator, panner });
+                const voice: Voice = { oscillator, panner };
+                if (this.drift.cents > 0) {
+                    voice.drift = this.createDrift(when);
+                }
+                if (sync_frequency || pulse) {
+                    const processorOptions: SyncOscillatorOptions = { waveform: settings.waveform, phase, start: when };
+                    const sync = new AudioWorkletNode(this.audioCtx, syncProcessorName, { numberOfInputs: 1, numberOfOutputs: 1, outputChannelCount: [1], processorOptions });
+                    // AudioParamMap is only typed as a map with dom.iterable
+                    const parameters = sync.parameters as unknown as ReadonlyMap<string, AudioParam>;
+                    const syncFrequency = parameters.get("frequency")!;
+                    const syncDetune = parameters.get("detune")!;
+                    const syncPWM = parameters.get("pwm")!;
+                    oscillator_frequency.connect(syncFrequency);
+                    syncDetune.value = detune;
+                    syncPWM.value = settings.pwm;
+                    if (sync_frequency) {
+                        // The pure oscillator is the master, restarting the synced oscillator
+                        oscillator.type = "sine";
+                        oscillator.connect(sync);
+                    }
+                    sync.connect(panner);
+                    destinations[ModulationDestination.Pitch].push(syncDetune);
+                    if (modulatePulseWidth) {
+                        // The pulse width follows the pitch of the processor
+                        destinations[ModulationDestination.PWM].push(syncPWM);
+                    }
+                    voice.drift?.gain.connect(syncDetune);
+                    frequencies.push(syncFrequency);
+                    voice.sync = sync;
+                } else if (weights) {
+                    const frameOscillators = [];
+                    const gains = [];
+                    for (let frame = 0; frame < weights.length; frame++) {
+                        let frameOscillator = oscillator;
+                        if (frame > 0) {
+                            frameOscillator = this.audioCtx.createOscillator();
+                            frameOscillator.frequency.value = 0;
+                            oscillator_frequency.connect(frameOscillator.frequency);
+                            frameOscillator.detune.value = oscillator.detune.value;
+                            frameOscillator.start(when);
+                            destinations[ModulationDestination.Pitch].push(frameOscillator.detune);
+                            voice.drift?.gain.connect(frameOscillator.detune);
+                            frequencies.push(frameOscillator.frequency);
+                            frameOscillators.push(frameOscillator);
+                        }
+                        frameOscillator.setPeriodicWave(this.wavetableWave(settings, frame, phase));
+                        const frameGain = this.audioCtx.createGain();
+                        frameGain.gain.value = 0;
+                        weights[frame].connect(frameGain.gain);
+                        frameOscillator.connect(frameGain);
+                        frameGain.connect(panner);
+                        gains.push(frameGain);
+                    }
+                    voice.frames = { oscillators: frameOscillators, gains };
+                } else if (custom) {
+                    oscillator.connect(panner);
+                    oscillator.setPeriodicWave(this.wavetableWave(settings, 0, phase));
+                } else {
+                    oscillator.connect(panner);
+                    oscillator.setPeriodicWave(this.periodicWave(settings.waveform === Waveform.Custom ? Waveform.Sine : settings.waveform, phase, settings.pwm));
+                }
+                if (!voice.sync) {
+                    frequencies.push(oscillator.frequency);
+                    voice.drift?.gain.connect(oscillator.detune);
+                }
+                oscillator.start(when);
+                destinations[ModulationDestination.Pitch].push(oscillator.detune);
+                destinations[ModulationDestination.Pan].push(panner.pan);
+                voices.push(voice);
+            }
+            if (fm) {
+                for (let frequency of frequencies) {
+                    fm.depth.connect(frequency);
+                }
+            }
+            if (index === 0) {
+                modulator = { oscillator: voices[0].oscillator, frequency: oscillator_frequency };
             }
-            oscillators.push({ voices, frequency: oscillator_frequency, gain: oscillator_gain });
+            oscillators.push({ voices, settings, frequency: oscillator_frequency, gain: oscillator_gain, position, weights, fm, ring, sync: sync_frequency });
+            settings.notes++;
+        }
+        let sub: Oscillator | undefined;
+        if (this.subSettings.on) {
+            const sub_gain = this.audioCtx.createGain();
+            sub_gain.gain.value = 0;
+            this.subSettings.gain.connect(sub_gain.gain);
+            sub_gain.connect(gain);
+            const sub_frequency = this.audioCtx.createGain();
+            sub_frequency.gain.value = 0;
+            this.subSettings.pitch.connect(sub_frequency.gain);
+            bend.connect(sub_frequency);
+            const panner = this.audioCtx.createStereoPanner();
+            const oscillator = this.audioCtx.createOscillator();
+            oscillator.frequency.value = 0;
+            sub_frequency.connect(oscillator.frequency);
+            const subFrequency = this.noteNumberToFrequency(noteNumber) * Math.pow(2, -this.subSettings.octave);
+            oscillator.setPeriodicWave(this.periodicWave(this.subSettings.waveform, this.startPhase(subFrequency, when)));
+            oscillator.connect(panner);
+            panner.connect(sub_gain);
+            oscillator.start(when);
+            destinations[ModulationDestination.Level].push(sub_gain.gain);
+            destinations[ModulationDestination.Pitch].push(oscillator.detune);
+            destinations[ModulationDestination.Pan].push(panner.pan);
+            sub = { voices: [{ oscillator, panner }], frequency: sub_frequency, gain: sub_gain };
+        }
+        let noise: Noise | undefined;
+        if (this.noiseSettings.on) {
+            const noise_gain = this.audioCtx.createGain();
+            noise_gain.gain.value = 0;
+            this.noiseSettings.gain.connect(noise_gain.gain);
+            noise_gain.connect(gain);
+            const buffer = this.noiseBuffer(this.noiseSettings.type);
+            const source = new AudioBufferSourceNode(this.audioCtx, { buffer, loop: true });
+            source.connect(noise_gain);
+            // Random start so that notes are not correlated
+            source.start(when, Math.random() * buffer.duration);
+            noise = { source, gain: noise_gain };
         }
-        // Node to convert exponential value 0-1 to frequency between 20 Hz and 20 kHz
-        let filter_cutoff = new WaveShaperNode(this.audioCtx, { curve: this.valueToFrequencyLUT });
-
         // Filter
-        const filter = this.audioCtx.createBiquadFilter();
-        filter.frequency.value = 0;
-        filter.type = "lowpass";
-        this.filterSettings.cutoff.connect(filter_cutoff);
-        this.filterSettings.resonance.connect(filter.Q);
+        const slope = this.filterSettings.slope;
+        filter.type = filterTypeToBiquadType(this.filterSettings.type);
+        filter2.type = filter.type;
+        if (slope === 24) {
+            // Cascade the second stage
+            filter.connect(filter2);
+        }
+        const filter_output = slope === 24 ? filter2 : filter;
 
         // Filter envelope
-        const filter_envelope = this.audioCtx.createGain();
-        if (this.envelopes.filter.attack > 0) {
-            filter_envelope.gain.value = 0;
-            filter_envelope.gain.setValueCurveAtTime(calculateEnvelopeCurveArray(0, 1, this.envelopes.filter.attackShape), this.audioCtx.currentTime, this.envelopes.filter.attack);
-        } else {
-            filter_envelope.gain.value = 1;
-        }
-        if (this.envelopes.filter.decay > 0) {
-            filter_envelope.gain.setValueCurveAtTime(calculateEnvelopeCurveArray(1, this.envelopes.filter.sustain, this.envelopes.filter.decayShape), this.audioCtx.currentTime + this.envelopes.filter.attack, this.envelopes.filter.decay);
-        } else {
-            filter_envelope.gain.setValueAtTime(this.envelopes.filter.sustain, this.audioCtx.currentTime + this.envelopes.filter.attack);
-        }
-        this.filterSettings.envelope.connect(filter_envelope);
+        const filterPeak = applyVelocitySensitivity(velocity, this.velocitySettings.filter);
+        scheduleEnvelope(filter_envelope.gain, this.envelopes.filter, filterPeak, when);
 
         // Keyboard tracking
-        const filter_keyboard = this.audioCtx.createGain();
         if (this.glide > 0 && this.previousNoteNumber !== undefined) {
-            filter_keyboard.gain.value = noteNumberToFilterValue(this.previousNoteNumber);
-            filter_keyboard.gain.linearRampToValueAtTime(noteNumberToFilterValue(noteNumber), this.audioCtx.currentTime + this.glide);
+            filter_keyboard.gain.setValueAtTime(noteNumberToFilterValue(this.previousNoteNumber), when);
+            filter_keyboard.gain.linearRampToValueAtTime(noteNumberToFilterValue(noteNumber), when + this.glide);
         } else {
             filter_keyboard.gain.value = noteNumberToFilterValue(noteNumber);
         }
-        this.filterSettings.keyboard.connect(filter_keyboard);
-        filter_keyboard.connect(filter_envelope);
 
-        filter_envelope.connect(filter_cutoff);
-        filter_cutoff.connect(filter.frequency);
-        gain.connect(filter);
-        filter.connect(this.summingBus);
+        // LFOs and modulation matrix
+        destinations[ModulationDestination.Cutoff].push(filter_cutoff);
+        destinations[ModulationDestination.Resonance].push(filter.Q);
+        if (slope === 24) {
+            destinations[ModulationDestination.Resonance].push(filter2.Q);
+        }
+        const lfos = this.lfos.map(lfo => this.createNoteLFO(lfo, destinations, when));
+        let modulation: NoteModulation | undefined;
+        if (this.modulation.length > 0) {
+            modulation = this.createModulation(noteNumber, velocity, lfos, destinations, when);
+        }
+        if (modulation?.amplitude) {
+            filter_output.connect(modulation.amplitude);
+            modulation.amplitude.connect(this.summingBus);
+        } else {
+            filter_output.connect(this.summingBus);
+        }
 
         if (this.mode == Mode.Poly) {
-            this.noteAbort(noteNumber);
+            this.noteAbort(noteNumber, when);
+            while (this.notes.size + this.releasing.size >= this.polyphony) {
+                this.stealNote(this.selectNoteToSteal(when), when);
+            }
         } else if (this.mode == Mode.Mono) {
             for (let note of this.notes.values()) {
-                this.noteAbort(note.noteNumber);
+                this.noteAbort(note.noteNumber, when);
             }
         }
         this.previousNoteNumber = noteNumber;
-        this.notes.set(noteNumber, { noteNumber, gain, filter, filter_cutoff, filter_envelope, filter_keyboard, frequency, pitch, oscillators, released: false });
+        this.notes.set(noteNumber, { ...chain, noteNumber, slope, oscillators, sub, noise, lfos, modulation, startTime: when, amplitudePeak, filterPeak, released: false });
     }
 
     /** Trigger note off.
      *
      * @param noteNumber MIDI note number
+     * @param when Time of the note off, in the time coordinate of the audio context. Defaults to now.
      */
-    noteOff(noteNumber: number) {
+    noteOff(noteNumber: number, when: number = this.audioCtx.currentTime) {
         this.keyStack = this.keyStack.filter(key => key !== noteNumber);
+        this.keyVelocities.delete(noteNumber);
+        if (this.arpeggiator.settings.on) {
+            return this.arpeggiator.setKeys(this.keyStack, undefined, when);
+        } else if (this.sequencer.settings.on) {
+            return this.sequencer.setKeys(this.keyStack, when);
+        }
         if (this.previousNoteNumber === noteNumber && this.keyStack.length > 0) {
+            // Return to the last held key, played with its velocity
+            const key = this.keyStack[this.keyStack.length - 1];
             if (this.mode == Mode.Legato) {
-                return this.noteOnLegato(this.keyStack[this.keyStack.length - 1]);
+                return this.noteOnLegato(key, this.keyVelocities.get(key) ?? 1, when);
             } else if (this.mode == Mode.Mono) {
-                return this.noteOn(this.keyStack[this.keyStack.length - 1]);
+                return this.startNote(key, this.keyVelocities.get(key) ?? 1, when);
             }
         }
+        if (this.sustain || this.sostenutoNotes.has(noteNumber)) {
+            // Release when the pedal is lifted
+            this.sustainedNotes.add(noteNumber);
+            return;
+        }
+        this.stopNote(noteNumber, when);
+    }
+
+    /** Set the sustain (damper) pedal. Released keys keep sounding until the pedal is lifted.
+     *
+     * The arpeggiator and the step sequencer follow the keys that are held and ignore the pedals, use the
+     * arpeggiator latch to keep a chord playing.
+     *
+     * @param on Pedal down
+     * @param when Time of the change, in the time coordinate of the audio context. Defaults to now.
+     */
+    setSustain(on: boolean, when: number = this.audioCtx.currentTime) {
+        this.sustain = on;
+        if (!on) {
+            for (const noteNumber of this.sustainedNotes) {
+                if (!this.sostenutoNotes.has(noteNumber)) {
+                    this.sustainedNotes.delete(noteNumber);
+                    this.stopNote(noteNumber, when);
+                }
+            }
+        }
+    }
+
+    /** Set the sostenuto pedal. Keys held when the pedal goes down keep sounding until the pedal is lifted.
+     * Like the sustain pedal, it is ignored by the arpeggiator and the step sequencer.
+     *
+     * @param on Pedal down
+     * @param when Time of the change, in the time coordinate of the audio context. Defaults to now.
+     */
+    setSostenuto(on: boolean, when: number = this.audioCtx.currentTime) {
+        if (on === this.sostenuto) return;
+        this.sostenuto = on;
+        if (on) {
+            this.sostenutoNotes = new Set(this.keyStack);
+        } else {
+            for (const noteNumber of this.sostenutoNotes) {
+                if (this.sustainedNotes.has(noteNumber) && !this.sustain) {
+                    this.sustainedNotes.delete(noteNumber);
+                    this.stopNote(noteNumber, when);
+                }
+            }
+            this.sostenutoNotes.clear();
+        }
+    }
+
+    // Release a note, from a key or a pattern
+    private stopNote(noteNumber: number, when: number) {
+        if (this.worklet) {
+            this.postEngineEvent({ type: "noteOff", time: when, noteNumber });
+            if (this.previousNoteNumber === noteNumber && !this.glide_always) {
+                this.previousNoteNumber = undefined;
+            }
+            return;
+        }
         const note = this.notes.get(noteNumber);
         if (note) {
             note.released = true;
             if (this.previousNoteNumber === noteNumber && !this.glide_always) {
                 this.previousNoteNumber = undefined;
             }
-            const currentGain = note.gain.gain.value;
-            note.gain.gain.cancelScheduledValues(this.audioCtx.currentTime);
-            if (this.envelopes.amplitude.release > 0) {
-                try {
-                    note.gain.gain.setValueAtTime(currentGain, this.audioCtx.currentTime);
-                    note.gain.gain.setValueCurveAtTime(calculateEnvelopeCurveArray(currentGain, 0, this.envelopes.filter.releaseShape), this.audioCtx.currentTime, this.envelopes.amplitude.release);
-                } catch (err) {
-                    // Fallback for Firefox
-                    const new_gain = this.audioCtx.createGain();
-                    new_gain.gain.value = currentGain;
-                    new_gain.gain.setValueCurveAtTime(calculateEnvelopeCurveArray(currentGain, 0, this.envelopes.filter.releaseShape), this.audioCtx.currentTime, this.envelopes.amplitude.release);
-                    new_gain.connect(note.filter);
-                    for (let oscillator of note.oscillators) {
-                        oscillator.gain.connect(new_gain);
-                    }
-                    note.gain.disconnect();
-                    note.gain = new_gain;
-                }
-            } else {
-                note.gain.gain.setValueAtTime(0, this.audioCtx.currentTime);
-            }
-            const currentEnvelope = note.filter_envelope.gain.value;
-            note.filter_envelope.gain.cancelScheduledValues(this.audioCtx.currentTime);
-            if (this.envelopes.filter.release > 0) {
-                try {
-                    note.filter_envelope.gain.setValueAtTime(currentEnvelope, this.audioCtx.currentTime);
-                    note.filter_envelope.gain.setValueCurveAtTime(calculateEnvelopeCurveArray(currentEnvelope, 0, this.envelopes.filter.releaseShape), this.audioCtx.currentTime, this.envelopes.filter.release);
-                } catch (err) {
-                    // Fallback for Firefox
-                    const new_envelope = this.audioCtx.createGain();
-                    new_envelope.gain.value = currentEnvelope;
-                    new_envelope.gain.setValueCurveAtTime(calculateEnvelopeCurveArray(currentEnvelope, 0, this.envelopes.filter.releaseShape), this.audioCtx.currentTime, this.envelopes.filter.release);
-                    new_envelope.connect(note.filter_cutoff);
-                    this.filterSettings.envelope.connect(new_envelope);
-                    note.filter_keyboard.connect(new_envelope);
-                    note.filter_envelope.disconnect();
-                    note.filter_envelope = new_envelope;
-                }
-            } else {
-                note.filter_envelope.gain.setValueAtTime(0, this.audioCtx.currentTime);
+            const currentGain = this.envelopeValueAtTime(note.gain.gain, this.envelopes.amplitude, note.amplitudePeak, note.startTime, when);
+            note.releaseTime = when;
+            note.releaseGain = currentGain;
+            if (!scheduleRelease(note.gain.gain, this.envelopes.amplitude, currentGain, when)) {
+                // Fallback for Firefox
+                scheduleRelease(this.replaceNoteGain(note, currentGain).gain, this.envelopes.amplitude, currentGain, when);
             }
-            if (note.oscillators.length > 0 && note.oscillators[0].voices.length > 0) {
-                // Cleanup when the first oscillator ends
-                note.oscillators[0].voices[0].oscillator.onended = () => {
-                    this.noteAbort(noteNumber);
-                };
+            const currentEnvelope = this.envelopeValueAtTime(note.filter_envelope.gain, this.envelopes.filter, note.filterPeak, note.startTime, when);
+            if (!scheduleRelease(note.filter_envelope.gain, this.envelopes.filter, currentEnvelope, when)) {
+                // Fallback for Firefox
+                const new_envelope = this.audioCtx.createGain();
+                new_envelope.gain.value = currentEnvelope;
+                scheduleRelease(new_envelope.gain, this.envelopes.filter, currentEnvelope, when);
+                new_envelope.connect(note.filter_cutoff);
+                this.filterSettings.envelope.connect(new_envelope);
+                note.filter_keyboard.connect(new_envelope);
+                this.filterSettings.envelope.disconnect(note.filter_envelope);
+                note.filter_keyboard.disconnect(note.filter_envelope);
+                note.filter_envelope.disconnect();
+                note.filter_envelope = new_envelope;
             }
-            for (let oscillator of note.oscillators) {
-                for (let voice of oscillator.voices) {
-                    voice.oscillator.stop(this.audioCtx.currentTime + this.envelopes.amplitude.release);
-                }
+            if (note.modulation) {
+                this.releaseModulation(note, note.modulation, when);
             }
+            // Cleanup when the sources end
+            this.stopNoteSources(note, when + this.envelopes.amplitude.release, () => this.removeNote(note));
         }
     }
 
-    /** Immediately stop note.
+    /** Stop note without release.
      *
      * @param noteNumber MIDI note number
+     * @param when Time to stop the note, in the time coordinate of the audio context. Defaults to now.
      */
-    noteAbort(noteNumber: number) {
+    noteAbort(noteNumber: number, when: number = this.audioCtx.currentTime) {
+        this.postEngineEvent({ type: "noteAbort", time: when, noteNumber });
+        const note = this.notes.get(noteNumber);
+        if (note) {
+            if (when > this.audioCtx.currentTime) {
+                // Stop at the scheduled time, the note is free for a new note on in the meantime
+                this.keepReleasing(noteNumber);
+                note.released = true;
+                this.stopNoteSources(note, when, () => this.disconnectNote(note));
+                return;
+            }
+            // Reset the callback in case of multiple calls
+            this.stopNoteSources(note, undefined, null);
+            this.disconnectNote(note);
+            this.notes.delete(noteNumber);
+        }
+    }
+
+    // Free the key of a sounding note, it still counts against the polyphony until it ends
+    private keepReleasing(noteNumber: number) {
         const note = this.notes.get(noteNumber);
         if (note) {
-            if (note.oscillators.length > 0 && note.oscillators[0].voices.length > 0) {
-                // Reset in case of multiple calls
-                note.oscillators[0].voices[0].oscillator.onended = null;
-            }
-            let i = 0;
-            for (let oscillator of note.oscillators) {
-                if (oscillator.voices.length > 0) {
-                    for (let voice of oscillator.voices) {
-                        voice.oscillator.stop();
-                        voice.oscillator.disconnect();
-                        voice.panner.disconnect();
+            this.notes.delete(noteNumber);
+            this.releasing.add(note);
+        }
+    }
+
+    // Abort the notes that are no longer the note of their key
+    private abortReleasingNotes() {
+        for (const note of [...this.releasing]) {
+            this.stopNoteSources(note, undefined, null);
+            this.disconnectNote(note);
+        }
+    }
+
+    // Add oscillators that are off, or remove oscillators from the end
+    private setOscillatorCount(count: number, when: number) {
+        while (this.oscillatorSettings.length < count) {
+            this.oscillatorSettings.push(defaultOscillatorSettings(this.audioCtx, false));
+        }
+        for (let settings of this.oscillatorSettings.splice(count)) {
+            // Fade out of the playing notes, which keep the sources until they end
+            const gain = settings.compound_gain.offset;
+            gain.cancelScheduledValues(when);
+            gain.setValueAtTime(settings.gain * calculateUnisonGain(settings.unison), when);
+            gain.linearRampToValueAtTime(0, when + voiceStealingFadeTime);
+            settings.removed = true;
+            if (settings.notes === 0) {
+                this.stopOscillatorSources(settings, when + voiceStealingFadeTime);
+            }
+        }
+    }
+
+    private stopOscillatorSources(settings: OscillatorSettings, when?: number) {
+        for (let source of [settings.compound_gain, settings.pitch, settings.position, settings.fm]) {
+            source.stop(when);
+        }
+    }
+
+    // Create the pooled nodes of a note, with the connections that stay between notes
+    private createChain(): NoteChain {
+        const gain = this.audioCtx.createGain();
+        const frequency = createConstantSource(this.audioCtx, 0);
+        const bend = this.audioCtx.createGain();
+        bend.gain.value = 0;
+        frequency.connect(bend);
+        // Node to convert exponential value 0-1 to frequency between 20 Hz and 20 kHz
+        const filter_cutoff = new WaveShaperNode(this.audioCtx, { curve: this.valueToFrequencyLUT });
+        const filter = this.audioCtx.createBiquadFilter();
+        filter.frequency.value = 0;
+        const filter2 = this.audioCtx.createBiquadFilter();
+        filter2.frequency.value = 0;
+        const filter_envelope = this.audioCtx.createGain();
+        const filter_keyboard = this.audioCtx.createGain();
+        filter_keyboard.connect(filter_envelope);
+        filter_envelope.connect(filter_cutoff);
+        filter_cutoff.connect(filter.frequency);
+        filter_cutoff.connect(filter2.frequency);
+        gain.connect(filter);
+        ++this.chainCount;
+        return { gain, filter, filter2, filter_cutoff, filter_envelope, filter_keyboard, frequency, bend };
+    }
+
+    // Connect or disconnect a chain and the shared sources, idle chains in the pool are disconnected
+    private connectChain(chain: NoteChain, connected: boolean) {
+        const connections: [AudioNode, AudioNode | AudioParam][] = [
+            [this.pitchBend, chain.bend.gain],
+            [this.filterSettings.cutoff, chain.filter_cutoff],
+            [this.controllerCutoff, chain.filter_cutoff],
+            [this.filterSettings.resonance, chain.filter.Q],
+            [this.filterSettings.resonance, chain.filter2.Q],
+            [this.filterSettings.envelope, chain.filter_envelope],
+            [this.filterSettings.keyboard, chain.filter_keyboard]
+        ];
+        for (const [source, target] of connections) {
+            if (connected) {
+                connectModulation(source, target);
+            } else {
+                source.disconnect(target as AudioParam);
+            }
+        }
+    }
+
+    // Preallocate note chains for the polyphony
+    private allocateChains(count: number) {
+        while (this.chainCount < count) {
+            this.chainPool.push(this.createChain());
+        }
+    }
+
+    // Reset the automation of a chain, disconnect it and return it to the pool
+    private releaseChain(chain: NoteChain) {
+        for (const param of [chain.gain.gain, chain.filter_envelope.gain, chain.filter_keyboard.gain, chain.frequency.offset]) {
+            param.cancelScheduledValues(0);
+        }
+        chain.gain.gain.value = 0;
+        this.connectChain(chain, false);
+        const { gain, filter, filter2, filter_cutoff, filter_envelope, filter_keyboard, frequency, bend, distortion } = chain;
+        this.chainPool.push({ gain, filter, filter2, filter_cutoff, filter_envelope, filter_keyboard, frequency, bend, distortion });
+    }
+
+    // Insert or remove the distortion of a chain, between its amplitude envelope and filter
+    private updateNoteDistortion(chain: NoteChain, when: number) {
+        if (this.noteDistortion.on && !chain.distortion) {
+            chain.distortion = new Distortion(this.audioCtx);
+            chain.gain.disconnect(chain.filter);
+            chain.gain.connect(chain.distortion.input);
+            chain.distortion.connect(chain.filter);
+        } else if (!this.noteDistortion.on && chain.distortion) {
+            chain.gain.disconnect(chain.distortion.input);
+            chain.distortion.stop();
+            chain.distortion = undefined;
+            chain.gain.connect(chain.filter);
+        }
+        chain.distortion?.setParameters(this.noteDistortion, when);
+    }
+
+    // Waves are cached with the phase quantised to periodicWavePhases steps
+    private periodicWave(waveform: Waveform, phase: number, pwm: number = 0): PeriodicWave {
+        const step = Math.floor(phase * periodicWavePhases);
+        const key = `${waveform}:${pwm}:${step}`;
+        let wave = this.periodicWaves.get(key);
+        if (!wave) {
+            if (this.periodicWaves.size >= maxPeriodicWaves) {
+                this.periodicWaves.clear();
+            }
+            wave = createPeriodicWave(this.audioCtx, waveform, step / periodicWavePhases, pwm);
+            this.periodicWaves.set(key, wave);
+        }
+        return wave;
+    }
+
+    private wavetableWave(settings: OscillatorSettings, frame: number, phase: number): PeriodicWave {
+        const step = Math.floor(phase * periodicWavePhases);
+        let wave = settings.waves[frame][step];
+        if (!wave) {
+            wave = createSpectrumWave(this.audioCtx, settings.spectra[frame], step / periodicWavePhases);
+            settings.waves[frame][step] = wave;
+        }
+        return wave;
+    }
+
+    // Replace the amplitude envelope of a note with a new node, for Firefox
+    private replaceNoteGain(note: Note, value: number): GainNode {
+        const new_gain = this.audioCtx.createGain();
+        new_gain.gain.value = value;
+        new_gain.connect(note.distortion?.input ?? note.filter);
+        for (let oscillator of note.oscillators) {
+            oscillator.gain.connect(new_gain);
+        }
+        note.gain.disconnect();
+        note.gain = new_gain;
+        return new_gain;
+    }
+
+    // Estimated amplitude of a note at a time
+    private noteLevel(note: Note, time: number): number {
+        if (note.releaseTime !== undefined && note.releaseGain !== undefined && time >= note.releaseTime) {
+            const { release, releaseShape } = this.envelopes.amplitude;
+            const elapsed = release > 0 ? (time - note.releaseTime) / release : 1;
+            return elapsed >= 1 ? 0 : note.releaseGain * (1 - calculateEnvelopeCurve(elapsed, releaseShape));
+        }
+        return calculateEnvelopeValue(this.envelopes.amplitude, note.amplitudePeak, time - note.startTime);
+    }
+
+    private selectNoteToSteal(when: number): Note {
+        const notes = [...this.notes.values(), ...this.releasing];
+        const select = (better: (a: Note, b: Note) => boolean) => notes.reduce((selected, note) => better(note, selected) ? note : selected);
+        switch (this.voiceStealing) {
+            case VoiceStealing.Quietest:
+                return select((a, b) => this.noteLevel(a, when) < this.noteLevel(b, when));
+            case VoiceStealing.Released:
+                return select((a, b) => a.released === b.released ? a.startTime < b.startTime : a.released);
+            case VoiceStealing.Highest:
+                return select((a, b) => a.noteNumber > b.noteNumber);
+            case VoiceStealing.Lowest:
+                return select((a, b) => a.noteNumber < b.noteNumber);
+            default:
+                return select((a, b) => a.startTime < b.startTime);
+        }
+    }
+
+    // Fade out a note quickly to free its voice, avoids the click of an abort
+    private stealNote(note: Note, when: number) {
+        if (this.notes.get(note.noteNumber) === note) {
+            this.notes.delete(note.noteNumber);
+        }
+        this.releasing.delete(note);
+        note.released = true;
+        try {
+            holdValueAtTime(note.gain.gain, when);
+            note.gain.gain.linearRampToValueAtTime(0, when + voiceStealingFadeTime);
+        } catch (err) {
+            // Fallback for Firefox
+            const gain = this.replaceNoteGain(note, this.noteLevel(note, when));
+            gain.gain.setValueAtTime(gain.gain.value, when);
+            gain.gain.linearRampToValueAtTime(0, when + voiceStealingFadeTime);
+        }
+        this.stopNoteSources(note, when + voiceStealingFadeTime, () => this.disconnectNote(note));
+    }
+
+    // Stop the sources of a note, the callback is called when the first source ends
+    private stopNoteSources(note: Note, when: number | undefined, onended: (() => void) | null) {
+        const sources: AudioScheduledSourceNode[] = [];
+        for (let oscillator of note.sub ? [...note.oscillators, note.sub] : note.oscillators) {
+            for (let voice of oscillator.voices) {
+                sources.push(voice.oscillator, ...voice.frames?.oscillators ?? []);
+                if (voice.drift) {
+                    sources.push(voice.drift.source);
+                }
+            }
+        }
+        if (note.noise) {
+            sources.push(note.noise.source);
+        }
+        if (sources.length > 0) {
+            sources[0].onended = onended;
+        } else {
+            // Nothing to wait for
+            onended?.();
+        }
+        for (let source of sources) {
+            source.stop(when);
+        }
+    }
+
+    // Start phase of an oscillator voice at a frequency
+    private startPhase(frequency: number, when: number): number {
+        switch (this.phaseMode) {
+            case PhaseMode.Free:
+                // As if running since time zero
+                return (frequency * when) % 1;
+            case PhaseMode.Reset:
+                return 0;
+            default:
+                return Math.random();
+        }
+    }
+
+    // Random pitch drift of a voice, starting at a random point of the drift curve
+    private createDrift(when: number): Drift {
+        if (!this.driftBuffer) {
+            this.driftBuffer = createDriftBuffer(this.audioCtx);
+        }
+        const source = new AudioBufferSourceNode(this.audioCtx, { buffer: this.driftBuffer, loop: true });
+        const gain = this.audioCtx.createGain();
+        gain.gain.value = 0;
+        this.drift.depth.connect(gain.gain);
+        source.connect(gain);
+        source.start(when, Math.random() * driftDuration);
+        return { source, gain };
+    }
+
+    private noiseBuffer(type: NoiseType): AudioBuffer {
+        let buffer = this.noiseBuffers.get(type);
+        if (!buffer) {
+            buffer = createNoiseBuffer(this.audioCtx, type);
+            this.noiseBuffers.set(type, buffer);
+        }
+        return buffer;
+    }
+
+    // Remove a note that has ended
+    private removeNote(note: Note) {
+        if (this.notes.get(note.noteNumber) === note) {
+            this.notes.delete(note.noteNumber);
+        }
+        this.disconnectNote(note);
+    }
+
+    private disconnectNote(note: Note) {
+        this.releasing.delete(note);
+        for (let oscillator of note.oscillators) {
+            const settings = oscillator.settings!;
+            for (let voice of oscillator.voices) {
+                voice.oscillator.disconnect();
+                voice.panner.disconnect();
+                if (voice.sync) {
+                    // Let the processor end
+                    voice.sync.port.postMessage("stop");
+                    voice.sync.disconnect();
+                }
+                if (voice.drift) {
+                    voice.drift.source.disconnect();
+                    voice.drift.gain.disconnect();
+                    this.drift.depth.disconnect(voice.drift.gain.gain);
+                }
+                if (voice.frames) {
+                    for (let frameOscillator of voice.frames.oscillators) {
+                        frameOscillator.disconnect();
+                    }
+                    for (let frameGain of voice.frames.gains) {
+                        frameGain.disconnect();
                     }
                 }
-                oscillator.frequency.disconnect();
-                oscillator.gain.disconnect();
-                this.oscillatorSettings[i].compound_gain.disconnect(oscillator.gain.gain);
-                this.oscillatorSettings[i].pitch.disconnect(oscillator.frequency.gain);
-                ++i;
-            }
-            note.frequency.stop();
-            note.gain.disconnect();
-            note.filter.disconnect();
-            note.filter_cutoff.disconnect();
-            note.filter_envelope.disconnect();
-            note.filter_keyboard.disconnect();
-            note.frequency.disconnect();
-            note.pitch.disconnect();
-            this.filterSettings.cutoff.disconnect(note.filter_cutoff);
-            this.filterSettings.resonance.disconnect(note.filter.Q);
-            this.filterSettings.envelope.disconnect(note.filter_envelope);
-            this.filterSettings.keyboard.disconnect(note.filter_keyboard);
-            this.lfoPitch.disconnect(note.pitch.gain);
-            this.notes.delete(noteNumber);
+            }
+            oscillator.frequency.disconnect();
+            oscillator.gain.disconnect();
+            settings.compound_gain.disconnect(oscillator.gain.gain);
+            settings.pitch.disconnect(oscillator.frequency.gain);
+            if (oscillator.position) {
+                oscillator.position.disconnect();
+                settings.position.disconnect(oscillator.position);
+            }
+            for (let weight of oscillator.weights ?? []) {
+                weight.disconnect();
+            }
+            if (oscillator.fm) {
+                oscillator.fm.index.disconnect();
+                oscillator.fm.depth.disconnect();
+                settings.fm.disconnect(oscillator.fm.index.gain);
+            }
+            oscillator.ring?.disconnect();
+            if (oscillator.sync) {
+                oscillator.sync.disconnect();
+                this.oscillatorSettings[0].pitch.disconnect(oscillator.sync.gain);
+            }
+            if (--settings.notes === 0 && settings.removed) {
+                this.stopOscillatorSources(settings);
+            }
+        }
+        if (note.sub) {
+            for (let voice of note.sub.voices) {
+                voice.oscillator.disconnect();
+                voice.panner.disconnect();
+            }
+            note.sub.frequency.disconnect();
+            note.sub.gain.disconnect();
+            this.subSettings.gain.disconnect(note.sub.gain.gain);
+            this.subSettings.pitch.disconnect(note.sub.frequency.gain);
+        }
+        if (note.noise) {
+            note.noise.source.disconnect();
+            note.noise.gain.disconnect();
+            this.noiseSettings.gain.disconnect(note.noise.gain.gain);
+        }
+        note.filter.disconnect();
+        note.filter2.disconnect();
+        note.bend.disconnect();
+        this.releaseChain(note);
+        for (let i = 0; i < note.lfos.length; i++) {
+            this.disconnectNoteLFO(this.lfos[i], note.lfos[i]);
+        }
+        if (note.modulation) {
+            this.disconnectModulation(note.modulation);
         }
     }
 
     /** Immediate reset. Aborts all notes. */
     panic() {
         this.keyStack = [];
+        this.keyVelocities.clear();
+        this.sostenutoNotes.clear();
+        this.sustainedNotes.clear();
+        this.arpeggiator.reset();
+        this.sequencer.reset();
         for (let note of this.notes.values()) {
             this.noteAbort(note.noteNumber);
         }
+        this.abortReleasingNotes();
+        this.postEngineEvent({ type: "panic", time: this.audioCtx.currentTime });
+    }
+
+    // Send an event to the worklet engine, if active
+    private postEngineEvent(event: EngineEvent) {
+        this.worklet?.port.postMessage(event);
     }
 }
@@ -0,0 +1,125 @@
+/** Scale parsed from a Scala `.scl` file. */
+export interface Scale {
+    /** Description of the scale. */
+    description: string;
+    /** Scale degrees in cents, from the first degree above the root to the period (usually 1200). */
+    pitches: number[];
+}
+
+/** Keyboard mapping parsed from a Scala `.kbm` file. */
+export interface KeyboardMapping {
+    /** Size of the mapping pattern, 0 maps keys linearly to scale degrees. */
+    size: number;
+    /** First MIDI note to retune. */
+    firstNote: number;
+    /** Last MIDI note to retune. */
+    lastNote: number;
+    /** MIDI note where the first entry of the mapping is mapped to. */
+    middleNote: number;
+    /** MIDI note with a fixed frequency. */
+    referenceNote: number;
+    /** Frequency of the reference note in Hz. */
+    referenceFrequency: number;
+    /** Scale degree of the formal octave, the mapping repeats at this degree. */
+    octaveDegree: number;
+    /** Scale degree of each key in the pattern, undefined for unmapped keys. */
+    mapping: (number | undefined)[];
+}
+
+// Non-comment lines, Scala comments start with "!"
+function readLines(text: string): string[] {
+    return text.split(/\r?\n/).filter(line => !line.startsWith("!"));
+}
+
+function parsePitch(value: string): number {
+    const token = value.trim().split(/\s+/)[0];
+    if (token.includes(".")) {
+        const cents = Number(token);
+        if (!isFinite(cents)) throw new Error(`Invalid pitch: ${value}`);
+        return cents;
+    }
+    const [numerator, denominator = "1"] = token.split("/");
+    const ratio = Number(numerator) / Number(denominator);
+    if (!isFinite(ratio) || ratio <= 0) throw new Error(`Invalid pitch: ${value}`);
+    return 1200 * Math.log2(ratio);
+}
+
+function parseInteger(value: string | undefined, name: string): number {
+    const number = Number(value?.trim().split(/\s+/)[0]);
+    if (!Number.isInteger(number)) throw new Error(`Invalid ${name}: ${value}`);
+    return number;
+}
+
+/** Parse a Scala `.scl` scale file. */
+export function parseScala(text: string): Scale {
+    const lines = readLines(text);
+    if (lines.length < 2) throw new Error("Invalid Scala file: missing header");
+    const description = lines[0].trim();
+    const count = parseInteger(lines[1], "number of notes");
+    const pitches = lines.slice(2).filter(line => line.trim() !== "").slice(0, count).map(parsePitch);
+    if (pitches.length !== count) throw new Error(`Invalid Scala file: expected ${count} pitches, found ${pitches.length}`);
+    return { description, pitches };
+}
+
+/** Parse a Scala `.kbm` keyboard mapping file. */
+export function parseKeyboardMapping(text: string): KeyboardMapping {
+    const lines = readLines(text).filter(line => line.trim() !== "");
+    if (lines.length < 7) throw new Error("Invalid keyboard mapping: missing header");
+    const size = parseInteger(lines[0], "map size");
+    const referenceFrequency = Number(lines[5].trim().split(/\s+/)[0]);
+    if (!isFinite(referenceFrequency) || referenceFrequency <= 0) throw new Error(`Invalid reference frequency: ${lines[5]}`);
+    const mapping = lines.slice(7, 7 + size).map(line => {
+        const token = line.trim().split(/\s+/)[0];
+        return token === "x" ? undefined : parseInteger(token, "mapping entry");
+    });
+    // Missing entries at the end are unmapped
+    while (mapping.length < size) {
+        mapping.push(undefined);
+    }
+    return {
+        size,
+        firstNote: parseInteger(lines[1], "first note"),
+        lastNote: parseInteger(lines[2], "last note"),
+        middleNote: parseInteger(lines[3], "middle note"),
+        referenceNote: parseInteger(lines[4], "reference note"),
+        referenceFrequency,
+        octaveDegree: parseInteger(lines[6], "octave degree"),
+        mapping
+    };
+}
+
+/** Default keyboard mapping: linear from middle C, with A4 as the reference. */
+export function defaultKeyboardMapping(tuning: number = 440): KeyboardMapping {
+    return { size: 0, firstNote: 0, lastNote: 127, middleNote: 60, referenceNote: 69, referenceFrequency: tuning, octaveDegree: 0, mapping: [] };
+}
+
+/** Convert a scale and keyboard mapping to a table of 128 frequencies, NaN for unmapped notes. */
+export function createTuningTable(scale: Scale, mapping: KeyboardMapping = defaultKeyboardMapping()): Float64Array {
+    if (scale.pitches.length === 0) throw new Error("Scale must have at least one pitch");
+    const period = scale.pitches[scale.pitches.length - 1];
+    const degreeToCents = (degree: number): number => {
+        const octave = Math.floor(degree / scale.pitches.length);
+        const index = degree - octave * scale.pitches.length;
+        return octave * period + (index === 0 ? 0 : scale.pitches[index - 1]);
+    };
+    const noteToDegree = (noteNumber: number): number | undefined => {
+        const offset = noteNumber - mapping.middleNote;
+        if (mapping.size === 0) return offset;
+        const octave = Math.floor(offset / mapping.size);
+        const entry = mapping.mapping[offset - octave * mapping.size];
+        return entry === undefined ? undefined : octave * (mapping.octaveDegree || scale.pitches.length) + entry;
+    };
+    const referenceDegree = noteToDegree(mapping.referenceNote);
+    if (referenceDegree === undefined) throw new Error("Reference note must be mapped");
+    const referenceCents = degreeToCents(referenceDegree);
+    const table = new Float64Array(128);
+    for (let noteNumber = 0; noteNumber < table.length; noteNumber++) {
+        const degree = noteToDegree(noteNumber);
+        if (degree === undefined || noteNumber < mapping.firstNote || noteNumber > mapping.lastNote) {
+            table[noteNumber] = NaN;
+        } else {
+            table[noteNumber] = mapping.referenceFrequency * Math.pow(2, (degreeToCents(degree) - referenceCents) / 1200);
+        }
+    }
+    return table;
+}
@@ -1,3 +1,5 @@
+import type { Distortion } from "./distortion";
+
 type DeepPartial<T> = T extends object ? {
     [P in keyof T]?: DeepPartial<T[P]>;
 } : T;
@@ -9,7 +11,41 @@ export enum Waveform {
     /** Square: odd harmonics */
     Square = 1,
     /** Sine: no harmonics */
-    Sine = 2
+    Sine = 2,
+    /** Triangle: odd harmonics, falling faster than square */
+    Triangle = 3,
+    /** Custom: user wavetable */
+    Custom = 4
+}
+
+/** Noise color */
+export enum NoiseType {
+    /** Equal energy per frequency */
+    White = 0,
+    /** Equal energy per octave, -3 dB/oct */
+    Pink = 1
+}
+
+/** Filter type */
+export enum FilterType {
+    /** Lowpass: removes frequencies above the cutoff */
+    Lowpass = 0,
+    /** Highpass: removes frequencies below the cutoff */
+    Highpass = 1,
+    /** Bandpass: keeps frequencies around the cutoff */
+    Bandpass = 2,
+    /** Notch: removes frequencies around the cutoff */
+    Notch = 3
+}
+
+/** Velocity response curve */
+export enum VelocityCurve {
+    /** Linear response */
+    Linear = 0,
+    /** Soft: louder at low velocities */
+    Soft = 1,
+    /** Hard: quieter at low velocities */
+    Hard = 2
 }
 
 /** Synthesizer mode */
@@ -22,32 +58,255 @@ export enum Mode {
     Legato = 2
 }
 
+/** LFO waveform */
+export enum LFOWaveform {
+    Sine = 0,
+    Triangle = 1,
+    Sawtooth = 2,
+    Square = 3,
+    /** Random steps at the LFO rate */
+    SampleAndHold = 4
+}
+
+/** Modulation source */
+export enum ModulationSource {
+    /** First LFO (-1-1) */
+    LFO = 0,
+    /** Amplitude envelope (0-1) */
+    AmplitudeEnvelope = 1,
+    /** Filter envelope (0-1) */
+    FilterEnvelope = 2,
+    /** Note velocity (0-1) */
+    Velocity = 3,
+    /** Note number, centered at middle C (-1-1 over ±64 semitones) */
+    NoteNumber = 4,
+    /** Mod wheel (0-1) */
+    ModWheel = 5,
+    /** Aftertouch (0-1) */
+    Aftertouch = 6,
+    /** Second LFO (-1-1) */
+    LFO2 = 7
+}
+
+/** Modulation destination */
+export enum ModulationDestination {
+    /** Oscillator pitch, full amount is one octave */
+    Pitch = 0,
+    /** Oscillator level, added to the oscillator gain */
+    Level = 1,
+    /** Pulse width of square waves, full amount is the full PWM range */
+    PWM = 2,
+    /** Filter cutoff, full amount is the full cutoff range */
+    Cutoff = 3,
+    /** Filter resonance, full amount is the full resonance range */
+    Resonance = 4,
+    /** Stereo panning */
+    Pan = 5,
+    /** Note amplitude, added to unity gain */
+    Amplitude = 6,
+    /** Wavetable position of custom waveforms, full amount is the full table */
+    Position = 7
+}
+
+/** Start phase of oscillator voices at note on */
+export enum PhaseMode {
+    /** Random phase for each voice */
+    Random = 0,
+    /** Continues as if the oscillator had been running since time zero, to within 1/16 of a cycle */
+    Free = 1,
+    /** Restarts at phase zero, for a consistent attack */
+    Reset = 2
+}
+
+/** Voice stealing policy, selects the note to replace when the polyphony is exceeded */
+export enum VoiceStealing {
+    /** Note started first */
+    Oldest = 0,
+    /** Note with the lowest amplitude */
+    Quietest = 1,
+    /** Note released first, the oldest note if none is released */
+    Released = 2,
+    /** Highest note */
+    Highest = 3,
+    /** Lowest note */
+    Lowest = 4
+}
+
+/** Arpeggiator note order */
+export enum ArpeggiatorOrder {
+    Up = 0,
+    Down = 1,
+    /** Up then down, without repeating the highest and lowest notes */
+    UpDown = 2,
+    Random = 3,
+    /** Order in which the keys were pressed */
+    AsPlayed = 4
+}
+
+/** Chorus mode */
+export enum ChorusMode {
+    /** Slow stereo chorus, as Juno chorus I */
+    I = 0,
+    /** Faster stereo chorus, as Juno chorus II */
+    II = 1,
+    /** Fast and shallow vibrato, as Juno chorus I and II together */
+    Both = 2,
+    /** Short sweeping delay, feedback adds resonance but raises the shortest delay to 128 samples */
+    Flanger = 3,
+    /** Three delays modulated in three phases, as a string ensemble */
+    Ensemble = 4
+}
+
+/** Distortion transfer curve */
+export enum DistortionCurve {
+    /** Smooth saturation */
+    SoftClip = 0,
+    /** Flat limits at full scale */
+    HardClip = 1,
+    /** Asymmetric saturation with even harmonics, like a tube stage */
+    Tube = 2,
+    /** Folds back from full scale, for bright metallic tones */
+    Foldback = 3
+}
+
+/** Voice rendering engine */
+export enum Engine {
+    /** Native Web Audio nodes for each note */
+    Nodes = 0,
+    /** All notes rendered by a single AudioWorklet processor */
+    Worklet = 1
+}
+
+// slow random pitch offset of a voice
+export interface Drift {
+    source: AudioBufferSourceNode;  // looping random curve, -1-1
+    gain: GainNode;                 // drift depth in cents
+}
+
 // pure oscillator with panning
 export interface Voice {
     oscillator: OscillatorNode; // pure oscillator
     panner: StereoPannerNode;   // panner per oscillator
+    sync?: AudioWorkletNode;    // hard synced or pulse width modulated oscillator, the pure oscillator is then the master or silent
+    drift?: Drift;              // random pitch drift
+    frames?: {
+        oscillators: OscillatorNode[]; // oscillators of the wavetable frames after the first
+        gains: GainNode[];      // crossfade of each frame
+    };
 }
 
 // virtual oscillator that allows for unison and detune
 export interface Oscillator {
     voices: Voice[];        // voices containing actual oscillators
+    settings?: OscillatorSettings; // settings of the oscillator, undefined for the sub-oscillator
     frequency: GainNode;    // frequency multiplier for all voices
     gain: GainNode;
+    position?: GainNode;    // wavetable position, 0-1
+    weights?: WaveShaperNode[]; // position to crossfade gain of each frame
+    fm?: {
+        index: GainNode;    // modulation index times the modulator frequency
+        depth: GainNode;    // modulator times the frequency deviation
+    };
+    ring?: GainNode;        // oscillator gain times the modulator
+    sync?: GainNode;        // master frequency for hard sync
 }
 
-export interface Note {
-    noteNumber: number;                 // MIDI note number
+// noise source of a note
+export interface Noise {
+    source: AudioBufferSourceNode;      // looping noise buffer
+    gain: GainNode;
+}
+
+// LFO shared by all notes
+export interface LFO {
+    settings: LFOSettings;
+    oscillator: OscillatorNode;         // free-running oscillator
+    frequency: ConstantSourceNode;      // oscillator frequency
+    wave?: PeriodicWave;                // sample and hold steps
+    depths: {
+        pitch: ConstantSourceNode;      // cents
+        cutoff: ConstantSourceNode;     // 0-1
+        level: ConstantSourceNode;      // 0-1
+        pan: ConstantSourceNode;        // 0-1
+    };
+}
+
+// LFO of a single note, with fade in
+export interface NoteLFO {
+    oscillator?: OscillatorNode;        // retriggered oscillator
+    fade: GainNode;                     // fade in after note on
+    depths: {
+        pitch: GainNode;
+        cutoff: GainNode;
+        level: GainNode;
+        pan: GainNode;
+    };
+}
+
+// modulation route from a source to one or more destinations
+export interface ModulationRoute {
+    source: ModulationSource;
+    destination: ModulationDestination;
+    amount: number;                     // -1-1
+    gain: GainNode;                     // amount and destination scaling
+}
+
+// per note modulation sources and routes
+export interface NoteModulation {
+    constant: ConstantSourceNode;       // unit source for velocity and note number
+    envelopes: {
+        amplitude?: GainNode;           // amplitude envelope signal
+        filter?: GainNode;              // filter envelope signal
+    };
+    routes: ModulationRoute[];
+    amplitude?: GainNode;               // amplitude modulation
+}
+
+// pooled nodes of a note, reused by later notes
+export interface NoteChain {
     gain: GainNode;                     // amplitude envelope
     filter: BiquadFilterNode;
+    filter2: BiquadFilterNode;          // second stage for 24 dB/oct slope
     filter_cutoff: WaveShaperNode;      // filter cutoff frequency
     filter_envelope: GainNode;          // filter envelope
     filter_keyboard: GainNode;          // filter keyboard tracking
     frequency: ConstantSourceNode;      // note frequency
-    pitch: GainNode;                    // pitch multiplier
+    bend: GainNode;                     // pitch bend multiplier
+    distortion?: Distortion;            // between the amplitude envelope and the filter, when note distortion is on
+}
+
+export interface Note extends NoteChain {
+    noteNumber: number;                 // MIDI note number
+    slope: 12 | 24;                     // filter slope, 24 uses filter2
     oscillators: Oscillator[];
+    sub?: Oscillator;                   // sub-oscillator
+    noise?: Noise;
+    lfos: NoteLFO[];
+    modulation?: NoteModulation;
+    startTime: number;                  // note on time
+    amplitudePeak: number;              // amplitude envelope peak
+    filterPeak: number;                 // filter envelope peak
+    releaseTime?: number;               // note off time
+    releaseGain?: number;               // amplitude at note off
     released: boolean;
 }
 
+// changed sections of a preset, replacing the current ones; oscillators without a wavetable keep theirs
+export type EnginePresetUpdate = Partial<Omit<Preset, "oscillators">> & {
+    oscillators?: (Omit<Preset["oscillators"][number], "wavetable"> & { wavetable?: WavetableFrame[] })[];
+};
+
+// message to the worklet engine, applied at a time in the time coordinate of the audio context
+export type EngineEvent =
+    | { type: "preset", time: number, preset: EnginePresetUpdate }
+    | { type: "tuning", time: number, frequencies: number[] }  // frequency of each MIDI note, NaN for unmapped notes
+    | { type: "noteOn", time: number, noteNumber: number, velocity: number }
+    | { type: "noteOff", time: number, noteNumber: number }
+    | { type: "noteAbort", time: number, noteNumber: number }
+    | { type: "pitchBend", time: number, value: number }      // pitch multiplier
+    | { type: "controllers", time: number, modWheel: number, aftertouch: number }
+    | { type: "panic", time: number };
+
 export interface OscillatorSettings {
     on: boolean;                        // on/off
     gain: number;                       // 0-1
@@ -59,8 +318,48 @@ export interface OscillatorSettings {
     pitch: ConstantSourceNode;          // pitch multiplier
     waveform: Waveform;                 // waveform
     pwm: number;                        // 0-1 for square wave, 0 for regular
+    wavetable: WavetableFrame[];        // frames of the custom waveform
+    spectra: { real: Float32Array, imag: Float32Array }[]; // Fourier coefficients of each frame
+    waves: PeriodicWave[][];            // cache by frame and phase
+    position: ConstantSourceNode;       // wavetable position, 0-1
+    positionValue: number;              // position as applied, offset.value only updates on the next render quantum
+    fm: ConstantSourceNode;             // FM index from the first oscillator
+    fmAmount: number;                   // FM amount as applied, 0-1
+    ring: boolean;                      // ring modulation by the first oscillator
+    sync: boolean;                      // hard sync to the first oscillator
+    notes: number;                      // playing notes using the oscillator
+    removed: boolean;                   // removed from the preset, the sources stop when no notes use them
+}
+
+export interface NoiseSettings {
+    on: boolean;                        // on/off
+    type: NoiseType;                    // noise color
+    gain: ConstantSourceNode;           // 0-1
+    volume: number;                     // dB, as applied
+}
+
+export interface SubOscillatorSettings {
+    on: boolean;                        // on/off
+    gain: ConstantSourceNode;           // 0-1
+    volume: number;                     // dB, as applied
+    octave: 1 | 2;                      // octaves below the note
+    pitch: ConstantSourceNode;          // pitch multiplier
+    waveform: Waveform;                 // waveform
 }
 
+/** Single cycle of a custom waveform, given by its harmonic spectrum or its samples. */
+export type WavetableFrame =
+    | {
+        /** Amplitude of each harmonic, starting with the fundamental. */
+        harmonics: number[];
+        /** Phase of each harmonic in cycles (0-1), 0 is a sine. */
+        phases?: number[];
+    }
+    | {
+        /** Samples of one cycle. */
+        samples: number[];
+    };
+
 /** Envelope settings, describes how a sound changes over time. */
 export interface ADSR {
     /** Duration of the attack phase, in seconds. */
@@ -79,6 +378,234 @@ export interface ADSR {
     releaseShape: number;
 }
 
+/** Modulation amounts for a performance controller, applied at full controller value. */
+export interface ControllerAmounts {
+    /** LFO pitch modulation depth added (0-1). */
+    pitch: number;
+    /** Filter cutoff offset (-1-1). */
+    cutoff: number;
+}
+
+/** LFO settings */
+export interface LFOSettings {
+    /** Shape of the waveform. */
+    waveform: LFOWaveform;
+    /** Rate in Hz, when not synced to tempo. */
+    frequency: number;
+    /** Whether the rate is synced to the tempo. */
+    sync: boolean;
+    /** Synced cycle length as a fraction of a whole note, e.g. 1/4 for a quarter note. */
+    division: number;
+    /** Fade in time after note on, in seconds. */
+    delay: number;
+    /** Whether the LFO restarts at each note on. */
+    retrigger: boolean;
+    /** Pitch modulation depth (0-1), up to two octaves in depth. */
+    pitch: number;
+    /** Filter cutoff modulation depth (0-1). */
+    cutoff: number;
+    /** Oscillator level modulation depth (0-1). */
+    level: number;
+    /** Stereo panning modulation depth (0-1). */
+    pan: number;
+}
+
+/** Modulation matrix slot, routes a source to a destination. */
+export interface ModulationSlot {
+    /** Modulation source. */
+    source: ModulationSource;
+    /** Modulation destination. */
+    destination: ModulationDestination;
+    /** Modulation amount (-1-1). */
+    amount: number;
+}
+
+/** Arpeggiator settings */
+export interface ArpeggiatorSettings {
+    /** Whether held keys are arpeggiated instead of played. */
+    on: boolean;
+    /** Note order. */
+    order: ArpeggiatorOrder;
+    /** Number of octaves to span (1-4). */
+    octaves: number;
+    /** Step length as a fraction of a whole note, e.g. 1/16 for a sixteenth note. */
+    division: number;
+    /** Note length as a fraction of the step length (0-1). */
+    gate: number;
+    /** Delay of every second step (0-1), 1 is half a step. */
+    swing: number;
+    /** Whether notes keep playing after the keys are released, until new keys are pressed. */
+    latch: boolean;
+}
+
+/** Step of the step sequencer */
+export interface SequencerStep {
+    /** Note in semitones relative to the held key. */
+    note: number;
+    /** Note velocity (0-1), 0 makes the step a rest. */
+    velocity: number;
+    /** Whether the note is held into the next step. */
+    tie: boolean;
+    /** Whether the step is silent. */
+    rest: boolean;
+}
+
+/** Step sequencer settings */
+export interface SequencerSettings {
+    /** Whether held keys play the pattern, transposed by the most recent key. */
+    on: boolean;
+    /** Steps of the pattern (1-64). */
+    steps: SequencerStep[];
+    /** Step length as a fraction of a whole note, e.g. 1/16 for a sixteenth note. */
+    division: number;
+    /** Note length as a fraction of the step length (0-1). */
+    gate: number;
+    /** Delay of every second step (0-1), 1 is half a step. */
+    swing: number;
+}
+
+/** Parameters of an effect, by name. */
+export type EffectParameters = Record<string, number | boolean>;
+
+/** Effect in the effects chain. The dry signal passes the effect unchanged, the output of the effect is added,
+ * unless the effect is an insert effect.
+ */
+export interface Effect {
+    /** Input of the effect. */
+    readonly input: AudioNode;
+    /** Wet level of the effect. */
+    readonly gain: AudioParam;
+    /** Connect the output of the effect. */
+    connect(output: AudioNode): void;
+    /** Disconnect the output of the effect. */
+    disconnect(): void;
+    /** Stop the effect, it is not used again. */
+    stop(): void;
+    /** Whether the output of the effect replaces the dry signal, which then only passes when bypassed. */
+    readonly insert?: boolean;
+    /** Apply the parameters of its slot. */
+    setParameters?(parameters: EffectParameters, when: number): void;
+    /** Follow the tempo in BPM, for tempo-synced effects. */
+    setTempo?(tempo: number, when: number): void;
+}
+
+/** Create an effect of a registered type. */
+export type EffectFactory = (audioCtx: BaseAudioContext) => Effect;
+
+/** Slot of the effects chain. */
+export interface EffectSlot {
+    /** Effect type: `chorus`, `delay`, `reverb`, `distortion`, or a type registered with `Synth.registerEffect`. */
+    type: string;
+    /** Whether the effect is bypassed, passing only the dry signal. */
+    bypass: boolean;
+    /** Parameters of the effect, unspecified parameters of built-in effects are default. */
+    parameters: EffectParameters;
+}
+
+/** Parameters of the chorus effect */
+export type ChorusParameters = {
+    /** Chorus amount (0-1). */
+    amount: number;
+    /** Chorus mode. */
+    mode: ChorusMode;
+    /** Modulation rate relative to the mode (0.1-10). */
+    rate: number;
+    /** Modulation depth relative to the mode (0-2). */
+    depth: number;
+    /** Centre delay relative to the mode (0.1-4). */
+    delay: number;
+    /** Level fed back into the delays (0-0.95). Web Audio delays a feedback loop by at least 128 samples,
+     * so with feedback the sweep starts above 128 samples, about 2.7 ms at 48 kHz.
+     */
+    feedback: number;
+    /** Stereo spread (0-1), 0 modulates both channels alike. */
+    spread: number;
+    /** Brightness of the chorus (0-1), 0.5 is a 10 kHz lowpass. */
+    tone: number;
+};
+
+/** Parameters of the stereo or ping-pong delay effect */
+export type DelayParameters = {
+    /** Wet level (0-1). */
+    mix: number;
+    /** Delay time in seconds, when not synced to tempo. At most 5 seconds. */
+    time: number;
+    /** Whether the delay time is synced to the tempo. */
+    sync: boolean;
+    /** Synced delay time as a fraction of a whole note, e.g. 3/16 for a dotted eighth note. */
+    division: number;
+    /** Level of each repeat (0-0.95). */
+    feedback: number;
+    /** Darkening of each repeat (0-1). */
+    damping: number;
+    /** Whether the repeats alternate between left and right. */
+    pingPong: boolean;
+};
+
+/** Parameters of the convolution reverb effect */
+export type ReverbParameters = {
+    /** Wet level (0-1). */
+    mix: number;
+    /** Room size (0-1), larger rooms build up slower. */
+    size: number;
+    /** Decay time to -60 dB in seconds, at most 10 seconds. */
+    decay: number;
+    /** Time before the reverb starts, in seconds. At most 1 second. */
+    preDelay: number;
+};
+
+/** Parameters of the distortion effect */
+export type DistortionParameters = {
+    /** Level of the distorted signal mixed with the dry signal (0-1). */
+    mix: number;
+    /** Gain into the curve (0-1), 0 dB to 40 dB. */
+    drive: number;
+    /** Transfer curve. */
+    curve: DistortionCurve;
+    /** Bit depth (1-16), 16 is not reduced. */
+    bits: number;
+    /** Sample rate reduction factor (1-64), 1 is not reduced. */
+    downsample: number;
+    /** Brightness of the distorted signal (0-1), a lowpass from 200 Hz to 20 kHz. */
+    tone: number;
+};
+
+/** 3-band master EQ: low shelf, parametric mid and high shelf */
+export interface EqualizerSettings {
+    /** Low shelf corner frequency in Hz (20-1000). */
+    lowFrequency: number;
+    /** Low shelf gain in dB (-24-24). */
+    lowGain: number;
+    /** Mid band center frequency in Hz (100-10000). */
+    midFrequency: number;
+    /** Mid band gain in dB (-24-24). */
+    midGain: number;
+    /** Mid band quality factor (0.1-10), higher is narrower. */
+    midQ: number;
+    /** High shelf corner frequency in Hz (1000-20000). */
+    highFrequency: number;
+    /** High shelf gain in dB (-24-24). */
+    highGain: number;
+}
+
+/** Master compressor settings, a limiter with a high ratio and fast attack */
+export interface CompressorSettings {
+    /** Whether the compressor is active. */
+    on: boolean;
+    /** Level where compression starts, in dB (-100-0). */
+    threshold: number;
+    /** Range above the threshold where the curve eases into the ratio, in dB (0-40). */
+    knee: number;
+    /** Input change in dB for a 1 dB output change above the threshold (1-20). */
+    ratio: number;
+    /** Time to reduce the gain by 10 dB, in seconds (0-1). */
+    attack: number;
+    /** Time to increase the gain by 10 dB, in seconds (0-1). */
+    release: number;
+    /** Gain after compression in dB (0-24). */
+    makeup: number;
+}
+
 /** Configuration for a specific synth sound. Can be exported and applied. */
 export interface Preset {
     /** Envelope settings, describes how a sound changes over time. */
@@ -88,7 +615,9 @@ export interface Preset {
         /** Filter envelope: controls the filter cutoff over time */
         filter: ADSR;
     },
-    /** Oscillator settings */
+    /** Oscillator settings, one entry per oscillator. The length sets the number of oscillators, also in a partial
+     * preset, where undefined entries keep their settings. Oscillators added by a preset are off unless turned on,
+     * removed oscillators fade out of playing notes. */
     oscillators: {
         /** Whether the oscillator is active. */
         on: boolean;        // on/off
@@ -106,9 +635,44 @@ export interface Preset {
         waveform: Waveform;
         /** Pulse width modulation for square waves (0-1). */
         pwm: number;
+        /** Frames of the custom waveform, scanned by position. */
+        wavetable: WavetableFrame[];
+        /** Wavetable position (0-1), from the first to the last frame. */
+        position: number;
+        /** Linear FM amount (0-1) from the first oscillator, 1 is a modulation index of 8. Ignored for the first oscillator. */
+        fm: number;
+        /** Ring modulation by the first oscillator. Ignored for the first oscillator. */
+        ring: boolean;
+        /** Hard sync to the pitch of the first oscillator. Requires AudioWorklet support, notes play unsynced until the
+         * processor has loaded. Not available for custom waveforms. Ignored for the first oscillator. */
+        sync: boolean;
     }[];
+    /** Noise source */
+    noise: {
+        /** Whether the noise source is active. */
+        on: boolean;
+        /** Output level in decibels. */
+        volume: number;
+        /** Noise color. */
+        type: NoiseType;
+    };
+    /** Sub-oscillator, following the note pitch */
+    sub: {
+        /** Whether the sub-oscillator is active. */
+        on: boolean;
+        /** Output level in decibels. */
+        volume: number;
+        /** Octaves below the note. */
+        octave: 1 | 2;
+        /** Shape of the waveform. */
+        waveform: Waveform;
+    };
     /** Filter configuration */
     filter: {
+        /** Filter type. */
+        type: FilterType;
+        /** Filter slope in dB/oct. */
+        slope: 12 | 24;
         /** Cutoff frequency 0-1, representing 20 Hz to 20 kHz. */
         cutoff: number;
         /** Resonance at the cutoff frequency (0-1). */
@@ -118,28 +682,78 @@ export interface Preset {
         /** Keyboard tracking depth, controlling how much the pitch affects cutoff (0-1). */
         keyboard: number;
     };
+    /** Velocity sensitivity */
+    velocity: {
+        /** Amplitude velocity sensitivity (0-1), 0 ignores velocity. */
+        amplitude: number;
+        /** Filter envelope velocity depth (0-1), 0 ignores velocity. */
+        filter: number;
+        /** Velocity response curve. */
+        curve: VelocityCurve;
+    };
     /** Time in seconds for pitch transitions between notes. */
     glide: number;
     /** Whether glide is applied between all notes or only legato. */
     glide_always: boolean;
+    /** Start phase of the oscillators and the sub-oscillator. */
+    phase: PhaseMode;
+    /** Slow random pitch drift of each oscillator voice, in cents. */
+    drift: number;
     /** Synthesizer mode/polyphony. */
     mode: Mode;
-    /** LFO frequency in Hz. */
-    lfoFrequency: number;
-    /** LFO pitch modulation depth (0-1), up to two octaves in depth. */
-    lfoPitch: number;
+    /** Maximum number of notes in poly mode, including releasing notes. */
+    polyphony: number;
+    /** Note to replace when the polyphony is exceeded. */
+    voiceStealing: VoiceStealing;
+    /** LFOs */
+    lfos: LFOSettings[];
+    /** Tempo in BPM, for synced LFOs, the arpeggiator, and the step sequencer. */
+    tempo: number;
+    /** First LFO frequency in Hz.
+     * @deprecated Use `lfos[0].frequency`.
+     */
+    lfoFrequency?: number;
+    /** First LFO pitch modulation depth (0-1).
+     * @deprecated Use `lfos[0].pitch`.
+     */
+    lfoPitch?: number;
+    /** Pitch bend range in semitones (0-24). */
+    pitchBendRange: number;
+    /** Mod wheel modulation amounts. */
+    modWheel: ControllerAmounts;
+    /** Aftertouch (channel pressure) modulation amounts. */
+    aftertouch: ControllerAmounts;
+    /** Modulation matrix. */
+    modulation: ModulationSlot[];
+    /** Arpeggiator, takes precedence over the step sequencer. */
+    arpeggiator: ArpeggiatorSettings;
+    /** Step sequencer. */
+    sequencer: SequencerSettings;
     /** Effects */
     fx: {
-        /** Chorus */
-        chorus: {
-            /** Chorus amount (0-1). */
-            amount: number;
-            /** Chorus mode. */
-            mode: 0 | 1;
+        /** Effects in order, after the summing bus of all notes. */
+        chain: EffectSlot[];
+        /** Parameters of the first chorus in the chain, a chorus is added at the end if there is none. */
+        chorus?: ChorusParameters;
+        /** Parameters of the first delay in the chain, a delay is added at the end if there is none. */
+        delay?: DelayParameters;
+        /** Parameters of the first reverb in the chain, a reverb is added at the end if there is none. */
+        reverb?: ReverbParameters;
+        /** Distortion of each note, before the filter. Add a `distortion` slot to the chain to distort the master bus. */
+        noteDistortion: DistortionParameters & {
+            /** Whether the notes are distorted. */
+            on: boolean;
         };
         /** Soft clipping on the master output. */
         softClip: boolean;
     };
+    /** Master section, after the master volume and before the soft clipping. */
+    master: {
+        /** Master EQ, flat at 0 dB gains. */
+        eq: EqualizerSettings;
+        /** Master compressor or limiter. */
+        compressor: CompressorSettings;
+    };
     /** Master volume in dB. */
     masterVolume: number;
 }
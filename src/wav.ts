@@ -0,0 +1,89 @@
+/** WAV sample format */
+export type WAVFormat = "pcm16" | "pcm24" | "float32";
+
+/** Audio data to encode, such as an `AudioBuffer`. */
+export interface AudioBufferLike {
+    readonly numberOfChannels: number;
+    readonly sampleRate: number;
+    readonly length: number;
+    getChannelData(channel: number): Float32Array;
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+
+function writeString(view: DataView, offset: number, value: string) {
+    for (let i = 0; i < value.length; i++) {
+        view.setUint8(offset + i, value.charCodeAt(i));
+    }
+}
+
+/** Encode audio as a WAV file.
+ *
+ * @param buffer Audio to encode
+ * @param format Sample format, integer formats are clipped to -1-1
+ * @returns WAV file contents
+ */
+export function encodeWAV(buffer: AudioBufferLike, format: WAVFormat = "pcm16"): ArrayBuffer {
+    const bytesPerSample = format === "pcm16" ? 2 : format === "pcm24" ? 3 : 4;
+    const isFloat = format === "float32";
+    const channels = buffer.numberOfChannels;
+    const blockAlign = channels * bytesPerSample;
+    const dataSize = buffer.length * blockAlign;
+    // Odd-sized chunks are followed by a zero pad byte, which is not counted in the chunk size
+    const padSize = dataSize % 2;
+    // Non-PCM formats require an extended format chunk and a fact chunk
+    const formatSize = isFloat ? 18 : 16;
+    const factSize = isFloat ? 12 : 0;
+    const headerSize = 12 + 8 + formatSize + factSize + 8;
+    const arrayBuffer = new ArrayBuffer(headerSize + dataSize + padSize);
+    const view = new DataView(arrayBuffer);
+
+    writeString(view, 0, "RIFF");
+    view.setUint32(4, headerSize - 8 + dataSize + padSize, true);
+    writeString(view, 8, "WAVE");
+    writeString(view, 12, "fmt ");
+    view.setUint32(16, formatSize, true);
+    view.setUint16(20, isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true);
+    view.setUint16(22, channels, true);
+    view.setUint32(24, buffer.sampleRate, true);
+    view.setUint32(28, buffer.sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bytesPerSample * 8, true);
+    let offset = 36;
+    if (isFloat) {
+        view.setUint16(offset, 0, true);
+        writeString(view, offset + 2, "fact");
+        view.setUint32(offset + 6, 4, true);
+        view.setUint32(offset + 10, buffer.length, true);
+        offset += 14;
+    }
+    writeString(view, offset, "data");
+    view.setUint32(offset + 4, dataSize, true);
+    offset += 8;
+
+    const data = [];
+    for (let channel = 0; channel < channels; channel++) {
+        data.push(buffer.getChannelData(channel));
+    }
+    for (let i = 0; i < buffer.length; i++) {
+        for (let channel = 0; channel < channels; channel++) {
+            const sample = data[channel][i];
+            if (isFloat) {
+                view.setFloat32(offset, sample, true);
+            } else {
+                const clipped = Math.max(-1, Math.min(1, sample));
+                if (format === "pcm16") {
+                    view.setInt16(offset, Math.round(clipped * 0x7fff), true);
+                } else {
+                    const value = Math.round(clipped * 0x7fffff);
+                    view.setUint8(offset, value & 0xff);
+                    view.setUint8(offset + 1, (value >> 8) & 0xff);
+                    view.setUint8(offset + 2, (value >> 16) & 0xff);
+                }
+            }
+            offset += bytesPerSample;
+        }
+    }
+    return arrayBuffer;
+}
@@ -0,0 +1,60 @@
+import { dspSource, SynthEngine } from "./dsp";
+
+/** Name of the worklet engine processor. */
+export const engineProcessorName = "synth-engine";
+
+/** AudioWorklet processor code of the worklet engine.
+ *
+ * Renders all notes with the DSP core to a stereo output. The processor options hold the initial `preset` and the
+ * `frequencies` of the MIDI notes. Post engine events to the port, or `{ type: "stop" }` to stop the processor.
+ */
+export const engineProcessorCode = `
+${dspSource}
+
+class EngineProcessor extends AudioWorkletProcessor {
+    constructor(options) {
+        super();
+        const { preset, frequencies } = options.processorOptions;
+        this.engine = new ${SynthEngine.name}(sampleRate, preset, frequencies);
+        this.running = true;
+        this.port.onmessage = event => {
+            if (event.data.type === "stop") {
+                this.running = false;
+            } else {
+                this.engine.schedule(event.data);
+            }
+        };
+    }
+
+    process(inputs, outputs) {
+        const [left, right] = outputs[0];
+        this.engine.process(left, right ?? new Float32Array(left.length), currentTime);
+        return this.running;
+    }
+}
+
+registerProcessor("${engineProcessorName}", EngineProcessor);
+`;
+
+async function loadAudioWorkletProcessor(audioCtx: BaseAudioContext, processorCode: string): Promise<void> {
+    const blob = new Blob([processorCode], { type: 'application/javascript' });
+    return audioCtx.audioWorklet.addModule(URL.createObjectURL(blob));
+}
+
+// Processors can only be registered once per context, shared by all synths
+const loadedProcessors = new WeakMap<BaseAudioContext, Map<string, Promise<boolean>>>();
+
+/** Load an AudioWorklet processor once per context, resolves to whether it is available. */
+export function loadProcessor(audioCtx: BaseAudioContext, processorCode: string): Promise<boolean> {
+    let processors = loadedProcessors.get(audioCtx);
+    if (!processors) {
+        processors = new Map();
+        loadedProcessors.set(audioCtx, processors);
+    }
+    let loaded = processors.get(processorCode);
+    if (!loaded) {
+        loaded = loadAudioWorkletProcessor(audioCtx, processorCode).then(() => true, () => false);
+        processors.set(processorCode, loaded);
+    }
+    return loaded;
+}
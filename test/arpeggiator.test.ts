@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Arpeggiator } from "../src/arpeggiator";
+import { ArpeggiatorOrder, ArpeggiatorSettings } from "../src/types";
+import { createNoteRecorder, createTimeline } from "./timeline";
+
+// Sixteenth notes at 120 BPM, 0.125 s per step
+function createSettings(settings: Partial<ArpeggiatorSettings> = {}): ArpeggiatorSettings {
+    return { on: true, order: ArpeggiatorOrder.Up, octaves: 1, division: 1 / 16, gate: 0.5, swing: 0, latch: false, ...settings };
+}
+
+function notesOn(notes: (string | number)[][]): number[] {
+    return notes.filter(([type]) => type === "noteOn").map(([, noteNumber]) => noteNumber as number);
+}
+
+test("plays the held keys in steps over the octaves", t => {
+    const { audioCtx, advance } = createTimeline(t);
+    const { output, notes } = createNoteRecorder();
+    const arpeggiator = new Arpeggiator(audioCtx, output, createSettings({ octaves: 2 }), 120);
+    arpeggiator.setKeys([64, 60], 0.8, 0);
+    advance(0.5);
+    assert.deepEqual(notes.slice(0, 4), [
+        ["noteOn", 60, 0, 0.8],
+        ["noteOff", 60, 0.0625],
+        ["noteOn", 64, 0.125, 0.8],
+        ["noteOff", 64, 0.1875]
+    ]);
+    assert.deepEqual(notesOn(notes), [60, 64, 72, 76, 60]);
+});
+
+test("plays the notes in the order of the pattern", t => {
+    const orders: [ArpeggiatorOrder, number[]][] = [
+        [ArpeggiatorOrder.Down, [67, 64, 60, 67]],
+        [ArpeggiatorOrder.UpDown, [60, 64, 67, 64, 60]],
+        [ArpeggiatorOrder.AsPlayed, [64, 67, 60, 64]]
+    ];
+    for (const [order, expected] of orders) {
+        const { audioCtx, advance } = createTimeline(t);
+        const { output, notes } = createNoteRecorder();
+        const arpeggiator = new Arpeggiator(audioCtx, output, createSettings({ order }), 120);
+        arpeggiator.setKeys([64, 67, 60], 1, 0);
+        advance((expected.length - 1) * 0.125 - 0.05);
+        arpeggiator.reset();
+        t.mock.timers.reset();
+        assert.deepEqual(notesOn(notes), expected, ArpeggiatorOrder[order]);
+    }
+});
+
+test("stops when the keys are released", t => {
+    const { audioCtx, advance } = createTimeline(t);
+    const { output, notes } = createNoteRecorder();
+    const arpeggiator = new Arpeggiator(audioCtx, output, createSettings(), 120);
+    arpeggiator.setKeys([60], 1, 0);
+    advance(0.25);
+    arpeggiator.setKeys([], undefined, 0.25);
+    advance(1);
+    assert.deepEqual(notesOn(notes), [60, 60, 60]);
+});
+
+test("keeps latched keys playing until new keys are pressed", t => {
+    const { audioCtx, advance } = createTimeline(t);
+    const { output, notes } = createNoteRecorder();
+    const arpeggiator = new Arpeggiator(audioCtx, output, createSettings({ latch: true }), 120);
+    arpeggiator.setKeys([60], 1, 0);
+    arpeggiator.setKeys([60, 64], 1, 0);
+    arpeggiator.setKeys([64], undefined, 0.05);
+    arpeggiator.setKeys([], undefined, 0.05);
+    advance(0.3);
+    assert.deepEqual(notesOn(notes), [60, 64, 60, 64]);
+    arpeggiator.setKeys([67], 1, 0.35);
+    advance(0.55);
+    assert.deepEqual(notesOn(notes).slice(4), [67, 67]);
+});
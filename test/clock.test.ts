@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { LookaheadClock, calculateStepLength } from "../src/clock";
+import { createTimeline } from "./timeline";
+
+test("calculates step lengths from the division and tempo", () => {
+    assert.equal(calculateStepLength(1 / 16, 120, 0, 0), 0.125);
+    assert.equal(calculateStepLength(1 / 4, 60, 0, 1), 1);
+});
+
+test("delays every second step by the swing, keeping pairs of steps in time", () => {
+    assert.equal(calculateStepLength(1 / 16, 120, 0.5, 0), 0.15625);
+    assert.equal(calculateStepLength(1 / 16, 120, 0.5, 1), 0.09375);
+    assert.equal(calculateStepLength(1 / 16, 120, 1, 2) + calculateStepLength(1 / 16, 120, 1, 3), 0.25);
+});
+
+test("schedules steps up to the lookahead ahead of the audio clock", t => {
+    const { audioCtx, advance } = createTimeline(t);
+    const steps: [number, number][] = [];
+    const clock = new LookaheadClock(audioCtx, (time, step) => { steps.push([time, step]); return 0.5; });
+    clock.start(0.05);
+    assert.deepEqual(steps, [[0.05, 0]]);
+    advance(0.5);
+    assert.deepEqual(steps, [[0.05, 0], [0.55, 1]]);
+    clock.stop();
+    assert.equal(clock.running, false);
+    advance(1);
+    assert.equal(steps.length, 2);
+});
+
+test("does not schedule steps in the past", t => {
+    const { audioCtx, advance } = createTimeline(t);
+    advance(0.5);
+    const times: number[] = [];
+    const clock = new LookaheadClock(audioCtx, time => { times.push(time); return 1; });
+    clock.start(0);
+    clock.stop();
+    assert.ok(times[0] >= 0.5);
+});
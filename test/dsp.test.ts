@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SynthEngine } from "../src/dsp";
+import { PhaseMode, Preset, Synth } from "../src/synth";
+
+const sampleRate = 48000;
+const blockSize = 128;
+const frequencies = Array.from({ length: 128 }, (_, noteNumber) => 440 * Math.pow(2, (noteNumber - 69) / 12));
+
+function createPreset(): Preset {
+    return { ...structuredClone(Synth.defaultPreset), phase: PhaseMode.Reset };
+}
+
+// Render a duration in blocks, returns the left channel
+function render(engine: SynthEngine, start: number, duration: number): Float32Array {
+    const blocks = Math.ceil(duration * sampleRate / blockSize);
+    const output = new Float32Array(blocks * blockSize);
+    const left = new Float32Array(blockSize);
+    const right = new Float32Array(blockSize);
+    for (let block = 0; block < blocks; block++) {
+        engine.process(left, right, start + block * blockSize / sampleRate);
+        output.set(left, block * blockSize);
+    }
+    return output;
+}
+
+function peak(samples: Float32Array): number {
+    return samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+}
+
+test("renders silence without notes", () => {
+    const engine = new SynthEngine(sampleRate, createPreset(), frequencies);
+    assert.equal(peak(render(engine, 0, 0.1)), 0);
+});
+
+test("plays a note at its frequency", () => {
+    const engine = new SynthEngine(sampleRate, createPreset(), frequencies);
+    engine.schedule({ type: "noteOn", time: 0, noteNumber: 69, velocity: 1 });
+    const samples = render(engine, 0, 1);
+    assert.ok(samples.every(sample => isFinite(sample)));
+    assert.ok(peak(samples) > 0.1);
+    let crossings = 0;
+    for (let i = 1; i < sampleRate; i++) {
+        if (samples[i - 1] < 0 && samples[i] >= 0) crossings++;
+    }
+    assert.ok(Math.abs(crossings - 440) <= 440 * 0.05, `${crossings} cycles per second`);
+});
+
+test("ends a note after the release", () => {
+    const engine = new SynthEngine(sampleRate, createPreset(), frequencies);
+    engine.schedule({ type: "noteOn", time: 0, noteNumber: 60, velocity: 1 });
+    engine.schedule({ type: "noteOff", time: 0.1, noteNumber: 60 });
+    const samples = render(engine, 0, 0.5);
+    assert.ok(peak(samples.subarray(0, sampleRate * 0.1)) > 0.1);
+    assert.ok(peak(samples.subarray(sampleRate * 0.4)) < 1e-4);
+});
+
+test("renders the same output with the same random numbers", () => {
+    const preset = { ...createPreset(), phase: PhaseMode.Random, drift: 0.5, noise: { on: true, volume: -12, type: Synth.defaultPreset.noise.type } };
+    const outputs = [0, 1].map(() => {
+        let seed = 1;
+        const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+        const engine = new SynthEngine(sampleRate, preset, frequencies, random);
+        engine.schedule({ type: "noteOn", time: 0, noteNumber: 64, velocity: 0.8 });
+        return render(engine, 0, 0.1);
+    });
+    assert.deepEqual(outputs[0], outputs[1]);
+});
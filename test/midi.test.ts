@@ -0,0 +1,114 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MIDIInputBinding, MIDIMessageSource, parseMIDIMessage } from "../src/midi";
+import type { Synth } from "../src/synth";
+
+test("parses note on and off", () => {
+    assert.deepEqual(parseMIDIMessage([0x91, 60, 100]), { type: "noteOn", channel: 1, noteNumber: 60, velocity: 100 });
+    assert.deepEqual(parseMIDIMessage([0x80, 60, 64]), { type: "noteOff", channel: 0, noteNumber: 60, velocity: 64 });
+});
+
+test("parses note on with velocity 0 as note off", () => {
+    assert.deepEqual(parseMIDIMessage([0x90, 60, 0]), { type: "noteOff", channel: 0, noteNumber: 60, velocity: 0 });
+});
+
+test("parses control change and channel pressure", () => {
+    assert.deepEqual(parseMIDIMessage([0xb2, 64, 127]), { type: "controlChange", channel: 2, controller: 64, value: 127 });
+    assert.deepEqual(parseMIDIMessage([0xd0, 90]), { type: "channelPressure", channel: 0, value: 90 });
+});
+
+test("scales pitch bend to -1-1", () => {
+    assert.deepEqual(parseMIDIMessage([0xe0, 0, 64]), { type: "pitchBend", channel: 0, value: 0 });
+    assert.deepEqual(parseMIDIMessage([0xe0, 0, 0]), { type: "pitchBend", channel: 0, value: -1 });
+    assert.deepEqual(parseMIDIMessage([0xe0, 127, 127]), { type: "pitchBend", channel: 0, value: 1 });
+});
+
+test("ignores short and unsupported messages", () => {
+    assert.equal(parseMIDIMessage([]), undefined);
+    assert.equal(parseMIDIMessage([0x90, 60]), undefined);
+    assert.equal(parseMIDIMessage([0xe0, 0]), undefined);
+    assert.equal(parseMIDIMessage([0xf8]), undefined);
+    assert.equal(parseMIDIMessage([0xc0, 5]), undefined);
+});
+
+// Records the calls of the binding as [method, ...arguments]
+function createStubSynth(): { synth: Synth, calls: unknown[][] } {
+    const calls: unknown[][] = [];
+    const record = (method: string) => (...args: unknown[]) => { calls.push([method, ...args]); };
+    const methods = ["noteOn", "noteOff", "setModWheel", "setAftertouch", "setPitchBend", "setSustain", "setSostenuto", "panic"];
+    const synth = Object.fromEntries(methods.map(method => [method, record(method)]));
+    return { synth: synth as unknown as Synth, calls };
+}
+
+test("forwards notes, controllers, pressure and pitch bend", () => {
+    const { synth, calls } = createStubSynth();
+    const binding = new MIDIInputBinding(synth);
+    binding.handleMessage([0x90, 60, 127]);
+    binding.handleMessage([0x80, 60, 0]);
+    binding.handleMessage([0xb0, 1, 127]);
+    binding.handleMessage([0xb0, 64, 64]);
+    binding.handleMessage([0xb0, 66, 0]);
+    binding.handleMessage([0xd0, 127]);
+    binding.handleMessage([0xe0, 0, 0]);
+    assert.deepEqual(calls, [
+        ["noteOn", 60, 1],
+        ["noteOff", 60],
+        ["setModWheel", 1],
+        ["setSustain", true],
+        ["setSostenuto", false],
+        ["setAftertouch", 1],
+        ["setPitchBend", -1]
+    ]);
+});
+
+test("releases held notes on all notes off and panics on all sound off", () => {
+    const { synth, calls } = createStubSynth();
+    const binding = new MIDIInputBinding(synth);
+    binding.handleMessage([0x90, 60, 64]);
+    binding.handleMessage([0x90, 64, 64]);
+    binding.handleMessage([0x80, 60, 0]);
+    binding.handleMessage([0xb0, 123, 0]);
+    binding.handleMessage([0x90, 67, 64]);
+    binding.handleMessage([0xb0, 120, 0]);
+    binding.handleMessage([0xb0, 123, 0]);
+    assert.deepEqual(calls.map(call => call.slice(0, 2)), [
+        ["noteOn", 60],
+        ["noteOn", 64],
+        ["noteOff", 60],
+        ["noteOff", 64],
+        ["noteOn", 67],
+        ["panic"]
+    ]);
+});
+
+test("listens to the given channel unless in omni mode", () => {
+    const { synth, calls } = createStubSynth();
+    const binding = new MIDIInputBinding(synth, { channel: 3 });
+    assert.equal(binding.omni, false);
+    binding.handleMessage([0x90, 60, 127]);
+    binding.handleMessage([0x93, 62, 127]);
+    assert.deepEqual(calls, [["noteOn", 62, 1]]);
+    assert.equal(new MIDIInputBinding(synth).omni, true);
+    assert.equal(new MIDIInputBinding(synth, { channel: 3, omni: true }).omni, true);
+});
+
+test("rejects invalid channels", () => {
+    const { synth } = createStubSynth();
+    assert.throws(() => new MIDIInputBinding(synth, { channel: 16 }), /between 0 and 15/);
+    assert.throws(() => new MIDIInputBinding(synth, { channel: 1.5 }), /integer/);
+});
+
+test("releases its notes when detached", () => {
+    const { synth, calls } = createStubSynth();
+    const listeners = new Set<(event: { data: ArrayLike<number> | null }) => void>();
+    const input: MIDIMessageSource = {
+        addEventListener: (_type, listener) => listeners.add(listener),
+        removeEventListener: (_type, listener) => listeners.delete(listener)
+    };
+    const binding = new MIDIInputBinding(synth);
+    binding.attach(input);
+    listeners.forEach(listener => listener({ data: [0x90, 60, 127] }));
+    binding.detach();
+    assert.equal(listeners.size, 0);
+    assert.deepEqual(calls, [["noteOn", 60, 1], ["noteOff", 60]]);
+});
@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { NoteEvent, renderOffline } from "../src/render";
+import { Synth } from "../src/synth";
+import { FakeOfflineAudioContext, installWebAudio } from "./webaudio";
+
+installWebAudio();
+
+test("renders more notes than the polyphony one after another without stealing", async () => {
+    const audioCtx = new FakeOfflineAudioContext(2, 48000 * 3, 48000);
+    const synth = new Synth(audioCtx as unknown as BaseAudioContext);
+    synth.applyPartialPreset({ polyphony: 2, envelopes: { amplitude: { release: 0.2 } } }, 0);
+    const internals = synth as any;
+    const stealNote = internals.stealNote;
+    let stolen = 0;
+    internals.stealNote = (...args: unknown[]) => {
+        stolen++;
+        return stealNote.apply(synth, args);
+    };
+    const events: NoteEvent[] = [];
+    for (let i = 0; i < 5; i++) {
+        events.push({ type: "noteOn", time: i * 0.5, noteNumber: 60 + i });
+        events.push({ type: "noteOff", time: i * 0.5 + 0.1, noteNumber: 60 + i });
+    }
+    // Past the end of the rendering
+    events.push({ type: "noteOn", time: 3, noteNumber: 72 });
+    const buffer = await renderOffline(synth, audioCtx as unknown as OfflineAudioContext, events);
+    assert.equal(buffer.length, 48000 * 3);
+    assert.equal(stolen, 0);
+    assert.equal(internals.notes.size, 0);
+});
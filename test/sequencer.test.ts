@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { StepSequencer } from "../src/sequencer";
+import { SequencerSettings, SequencerStep } from "../src/types";
+import { createNoteRecorder, createTimeline } from "./timeline";
+
+// Sixteenth notes at 120 BPM, 0.125 s per step
+function createSettings(steps: Partial<SequencerStep>[]): SequencerSettings {
+    return {
+        on: true,
+        steps: steps.map(step => ({ note: 0, velocity: 1, tie: false, rest: false, ...step })),
+        division: 1 / 16,
+        gate: 0.5,
+        swing: 0
+    };
+}
+
+test("plays the steps transposed by the most recent key, with rests", t => {
+    const { audioCtx, advance } = createTimeline(t);
+    const { output, notes } = createNoteRecorder();
+    const sequencer = new StepSequencer(audioCtx, output, createSettings([{ note: 0 }, { rest: true }, { note: 7, velocity: 0.5 }, { velocity: 0 }]), 120);
+    sequencer.setKeys([48, 60], 0);
+    advance(0.5);
+    assert.deepEqual(notes, [
+        ["noteOn", 60, 0, 1],
+        ["noteOff", 60, 0.0625],
+        ["noteOn", 67, 0.25, 0.5],
+        ["noteOff", 67, 0.3125],
+        ["noteOn", 60, 0.5, 1],
+        ["noteOff", 60, 0.5625]
+    ]);
+});
+
+test("holds tied notes into the next step", t => {
+    const { audioCtx, advance } = createTimeline(t);
+    const { output, notes } = createNoteRecorder();
+    const sequencer = new StepSequencer(audioCtx, output, createSettings([{ tie: true }, { tie: true }, { note: 2 }, { rest: true }]), 120);
+    sequencer.setKeys([60], 0);
+    advance(0.3);
+    assert.deepEqual(notes, [
+        ["noteOn", 60, 0, 1],
+        ["noteOn", 62, 0.25, 1],
+        ["noteOff", 60, 0.25],
+        ["noteOff", 62, 0.3125]
+    ]);
+});
+
+test("releases a tied note when the keys are released", t => {
+    const { audioCtx, advance } = createTimeline(t);
+    const { output, notes } = createNoteRecorder();
+    const sequencer = new StepSequencer(audioCtx, output, createSettings([{ tie: true }]), 120);
+    sequencer.setKeys([60], 0);
+    sequencer.setKeys([], 0.2);
+    advance(1);
+    assert.deepEqual(notes, [
+        ["noteOn", 60, 0, 1],
+        ["noteOff", 60, 0.2]
+    ]);
+});
@@ -0,0 +1,166 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PhaseMode, Synth, VoiceStealing } from "../src/synth";
+import { FakeAudioContext, FakeConstantSourceNode, installWebAudio } from "./webaudio";
+
+installWebAudio();
+
+function createSynth(): { synth: Synth, audioCtx: FakeAudioContext } {
+    const audioCtx = new FakeAudioContext();
+    const synth = new Synth(audioCtx as unknown as BaseAudioContext);
+    return { synth, audioCtx };
+}
+
+// Private state of the synth
+function internals(synth: Synth): any {
+    return synth as any;
+}
+
+test("sets the oscillator count from the preset in both apply methods", () => {
+    const { synth } = createSynth();
+    synth.applyPartialPreset({ oscillators: [{}, {}, { on: true }] });
+    assert.equal(synth.exportPreset().oscillators.length, 3);
+    synth.applyPartialPreset({ oscillators: [{ volume: -6 }] });
+    assert.equal(synth.exportPreset().oscillators.length, 1);
+    assert.ok(Math.abs(synth.exportPreset().oscillators[0].volume + 6) < 1e-9);
+    synth.applyPreset({ oscillators: [{}, {}, {}] });
+    assert.equal(synth.exportPreset().oscillators.length, 3);
+    assert.throws(() => synth.applyPartialPreset({ oscillators: [] }), /At least one oscillator/);
+});
+
+test("fades out a removed oscillator of a held note and stops its sources after the note", () => {
+    const { synth, audioCtx } = createSynth();
+    synth.applyPreset({ oscillators: [{ on: true }, { on: true }] });
+    synth.noteOn(60, 1, 0);
+    const removed = internals(synth).oscillatorSettings[1];
+    const sources: FakeConstantSourceNode[] = [removed.compound_gain, removed.pitch, removed.position, removed.fm];
+    synth.applyPartialPreset({ oscillators: [{}] }, 0.5);
+    assert.equal(removed.compound_gain.offset.valueAt(0.5), 1);
+    assert.equal(removed.compound_gain.offset.valueAt(0.505), 0);
+    assert.ok(sources.every(source => source.stopTime === undefined));
+    synth.noteOff(60, 1);
+    audioCtx.advance(2);
+    assert.ok(sources.every(source => source.stopTime !== undefined));
+});
+
+test("stops the sources of a removed oscillator without notes after the fade", () => {
+    const { synth } = createSynth();
+    const removed = internals(synth).oscillatorSettings[1];
+    synth.applyPartialPreset({ oscillators: [{}] }, 1);
+    assert.equal(removed.pitch.stopTime, 1.005);
+});
+
+// Notes that are sounding, by key or releasing under a newer note of their key
+function soundingNotes(synth: Synth): number {
+    return internals(synth).notes.size + internals(synth).releasing.size;
+}
+
+test("holds released keys with the sustain pedal until it is lifted", () => {
+    const { synth } = createSynth();
+    synth.setSustain(true, 0);
+    synth.noteOn(60, 1, 0);
+    synth.noteOff(60, 0.5);
+    assert.equal(internals(synth).notes.get(60).released, false);
+    synth.setSustain(false, 1);
+    assert.equal(internals(synth).notes.get(60).released, true);
+});
+
+test("holds only the keys down when the sostenuto pedal goes down", () => {
+    const { synth } = createSynth();
+    synth.noteOn(60, 1, 0);
+    synth.setSostenuto(true, 0.1);
+    synth.noteOn(64, 1, 0.2);
+    synth.noteOff(60, 0.5);
+    synth.noteOff(64, 0.5);
+    assert.equal(internals(synth).notes.get(60).released, false);
+    assert.equal(internals(synth).notes.get(64).released, true);
+    synth.setSostenuto(false, 1);
+    assert.equal(internals(synth).notes.get(60).released, true);
+});
+
+test("counts sustained notes retriggered by their key against the polyphony", () => {
+    const { synth } = createSynth();
+    synth.applyPartialPreset({ polyphony: 2, envelopes: { amplitude: { release: 10 } } });
+    synth.setSustain(true, 0);
+    for (let i = 0; i < 5; i++) {
+        synth.noteOn(60, 1, i);
+        synth.noteOff(60, i + 0.5);
+    }
+    assert.equal(soundingNotes(synth), 2);
+    synth.panic();
+    assert.equal(soundingNotes(synth), 0);
+});
+
+test("changes the effect chain once with the chain and the shortcut parameters", () => {
+    const { synth } = createSynth();
+    const effects = internals(synth).effects;
+    const setSlots = effects.setSlots.bind(effects);
+    const calls: unknown[] = [];
+    effects.setSlots = (...args: unknown[]) => { calls.push(args); setSlots(...args); };
+    synth.applyPartialPreset({ fx: { chain: [{ type: "distortion" }], chorus: { amount: 0.5 }, delay: { mix: 0.25 } } });
+    assert.equal(calls.length, 1);
+    const slots = synth.exportPreset().fx.chain;
+    assert.deepEqual(slots.map(slot => slot.type), ["distortion", "chorus", "delay"]);
+    assert.equal(slots[1].parameters.amount, 0.5);
+    assert.equal(slots[2].parameters.mix, 0.25);
+});
+
+test("caches the waves of free running phases in phase steps", () => {
+    const { synth } = createSynth();
+    synth.applyPartialPreset({ phase: PhaseMode.Free, polyphony: 64 });
+    for (let i = 0; i < 50; i++) {
+        synth.noteOn(40 + i, 1, i * 0.0137);
+    }
+    const waves = internals(synth).periodicWaves.size;
+    assert.ok(waves > 0 && waves <= 16, `${waves} waves`);
+});
+
+// Keys of the notes that are playing
+function playingKeys(synth: Synth): number[] {
+    return [...internals(synth).notes.keys()].sort((a, b) => a - b);
+}
+
+test("steals a voice by the voice stealing policy when the polyphony is exceeded", () => {
+    const policies: [VoiceStealing, number[]][] = [
+        [VoiceStealing.Oldest, [64, 67]],
+        [VoiceStealing.Highest, [60, 64]],
+        [VoiceStealing.Lowest, [64, 67]],
+        [VoiceStealing.Released, [60, 64]]
+    ];
+    for (const [voiceStealing, expected] of policies) {
+        const { synth } = createSynth();
+        synth.applyPartialPreset({ polyphony: 2, voiceStealing, envelopes: { amplitude: { release: 10 } } });
+        synth.noteOn(60, 1, 0);
+        synth.noteOn(67, 1, 0.1);
+        synth.noteOff(67, 0.2);
+        synth.noteOn(64, 1, 0.3);
+        assert.deepEqual(playingKeys(synth), expected, VoiceStealing[voiceStealing]);
+    }
+});
+
+test("fades out a stolen voice in a few milliseconds", () => {
+    const { synth } = createSynth();
+    synth.applyPartialPreset({ polyphony: 1 });
+    synth.noteOn(60, 1, 0);
+    const stolen = internals(synth).notes.get(60);
+    synth.noteOn(62, 1, 1);
+    assert.ok(stolen.gain.gain.valueAt(0.999) > 0);
+    assert.equal(stolen.gain.gain.valueAt(1.005), 0);
+    assert.deepEqual(playingKeys(synth), [62]);
+});
+
+test("schedules notes and controllers at the given time", () => {
+    const { synth } = createSynth();
+    synth.applyPartialPreset({ envelopes: { amplitude: { release: 0.2 } } });
+    synth.noteOn(60, 1, 1);
+    const note = internals(synth).notes.get(60);
+    assert.equal(note.startTime, 1);
+    assert.ok(note.gain.gain.events.every((event: { time: number }) => event.time >= 1));
+    assert.ok(note.oscillators[0].voices.every((voice: { oscillator: { startTime: number } }) => voice.oscillator.startTime === 1));
+    synth.noteOff(60, 2);
+    assert.equal(note.releaseTime, 2);
+    assert.ok(note.gain.gain.valueAt(1.999) > 0);
+    assert.equal(note.gain.gain.valueAt(10), 0);
+    synth.setPitchBend(1, 3);
+    assert.equal(internals(synth).pitchBend.offset.events.at(-1).time, 3);
+});
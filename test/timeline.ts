@@ -0,0 +1,25 @@
+import type { TestContext } from "node:test";
+import type { NoteOutput } from "../src/clock";
+
+/** Audio timeline driven by mocked timers, advance() moves the clock in steps of the default timer interval. */
+export function createTimeline(t: TestContext): { audioCtx: BaseAudioContext, advance: (time: number) => void } {
+    t.mock.timers.enable({ apis: ["setInterval"] });
+    const audioCtx = { currentTime: 0 };
+    const advance = (time: number) => {
+        while (audioCtx.currentTime < time) {
+            audioCtx.currentTime += 0.025;
+            t.mock.timers.tick(25);
+        }
+    };
+    return { audioCtx: audioCtx as unknown as BaseAudioContext, advance };
+}
+
+/** Note output recording the notes played, as [type, noteNumber, time] or [type, noteNumber, time, velocity]. */
+export function createNoteRecorder(): { output: NoteOutput, notes: (string | number)[][] } {
+    const notes: (string | number)[][] = [];
+    const output: NoteOutput = {
+        noteOn: (noteNumber, velocity, when) => { notes.push(["noteOn", noteNumber, when, velocity]); },
+        noteOff: (noteNumber, when) => { notes.push(["noteOff", noteNumber, when]); }
+    };
+    return { output, notes };
+}
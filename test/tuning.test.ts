@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createTuningTable, parseKeyboardMapping, parseScala } from "../src/tuning";
+
+const pentatonic = `! pentatonic.scl
+!
+Pentatonic scale
+ 5
+!
+ 9/8
+ 5/4
+ 700.0
+ 5/3
+ 2/1
+`;
+
+function assertClose(actual: number, expected: number) {
+    assert.ok(Math.abs(actual - expected) < 1e-6, `${actual} is not close to ${expected}`);
+}
+
+test("parses cents and ratios of a Scala file", () => {
+    const scale = parseScala(pentatonic);
+    assert.equal(scale.description, "Pentatonic scale");
+    assert.equal(scale.pitches.length, 5);
+    assertClose(scale.pitches[0], 1200 * Math.log2(9 / 8));
+    assertClose(scale.pitches[2], 700);
+    assertClose(scale.pitches[4], 1200);
+});
+
+test("rejects a Scala file with missing pitches", () => {
+    assert.throws(() => parseScala("Short\n3\n100.0\n200.0\n"), /expected 3 pitches/);
+});
+
+test("parses a keyboard mapping with unmapped keys", () => {
+    const mapping = parseKeyboardMapping(`! white keys
+12
+0
+127
+60
+69
+440.0
+7
+0
+x
+1
+x
+2
+3
+x
+4
+x
+5
+x
+6
+`);
+    assert.equal(mapping.size, 12);
+    assert.equal(mapping.referenceFrequency, 440);
+    assert.equal(mapping.octaveDegree, 7);
+    assert.deepEqual(mapping.mapping, [0, undefined, 1, undefined, 2, 3, undefined, 4, undefined, 5, undefined, 6]);
+});
+
+test("creates 12-TET with the default mapping", () => {
+    const table = createTuningTable(parseScala("12-TET\n12\n" + Array.from({ length: 12 }, (_, i) => `${(i + 1) * 100}.0`).join("\n")));
+    assert.equal(table.length, 128);
+    assertClose(table[69], 440);
+    assertClose(table[81], 880);
+    assertClose(table[60], 440 * Math.pow(2, -9 / 12));
+});
+
+test("maps keys through a keyboard mapping", () => {
+    const scale = parseScala(pentatonic);
+    // Every second key is mapped, each pattern advances two scale degrees
+    const mapping = parseKeyboardMapping("2\n0\n127\n60\n60\n261.0\n2\n0\nx\n");
+    const table = createTuningTable(scale, mapping);
+    assertClose(table[60], 261);
+    assert.ok(isNaN(table[61]));
+    assertClose(table[62], 261 * 5 / 4);
+    assertClose(table[58], 261 * Math.pow(2, -500 / 1200));
+});
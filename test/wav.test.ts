@@ -0,0 +1,54 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AudioBufferLike, encodeWAV } from "../src/wav";
+
+function createBuffer(channels: Float32Array[], sampleRate: number = 48000): AudioBufferLike {
+    return {
+        numberOfChannels: channels.length,
+        sampleRate,
+        length: channels[0].length,
+        getChannelData: channel => channels[channel]
+    };
+}
+
+function readString(view: DataView, offset: number, length: number): string {
+    return String.fromCharCode(...new Uint8Array(view.buffer, offset, length));
+}
+
+test("writes a 16-bit PCM header and clipped samples", () => {
+    const view = new DataView(encodeWAV(createBuffer([new Float32Array([0, 1, -1, 2]), new Float32Array([0.5, 0, 0, -2])])));
+    assert.equal(view.byteLength, 44 + 16);
+    assert.equal(readString(view, 0, 4), "RIFF");
+    assert.equal(view.getUint32(4, true), view.byteLength - 8);
+    assert.equal(readString(view, 8, 8), "WAVEfmt ");
+    assert.equal(view.getUint16(20, true), 1);
+    assert.equal(view.getUint16(22, true), 2);
+    assert.equal(view.getUint32(24, true), 48000);
+    assert.equal(view.getUint32(28, true), 48000 * 4);
+    assert.equal(view.getUint16(32, true), 4);
+    assert.equal(view.getUint16(34, true), 16);
+    assert.equal(readString(view, 36, 4), "data");
+    assert.equal(view.getUint32(40, true), 16);
+    assert.deepEqual([0, 1, 2, 3, 4, 5, 6, 7].map(i => view.getInt16(44 + 2 * i, true)), [0, 16384, 32767, 0, -32767, 0, 32767, -32767]);
+});
+
+test("writes a float header with a fact chunk", () => {
+    const view = new DataView(encodeWAV(createBuffer([new Float32Array([0.25, -1.5])]), "float32"));
+    assert.equal(view.getUint16(20, true), 3);
+    assert.equal(view.getUint32(16, true), 18);
+    assert.equal(readString(view, 38, 4), "fact");
+    assert.equal(view.getUint32(46, true), 2);
+    assert.equal(readString(view, 50, 4), "data");
+    assert.equal(view.getUint32(54, true), 8);
+    assert.equal(view.getFloat32(58, true), 0.25);
+    assert.equal(view.getFloat32(62, true), -1.5);
+    assert.equal(view.getUint32(4, true), view.byteLength - 8);
+});
+
+test("pads an odd-sized 24-bit data chunk", () => {
+    const view = new DataView(encodeWAV(createBuffer([new Float32Array([1])]), "pcm24"));
+    assert.equal(view.getUint32(40, true), 3);
+    assert.equal(view.byteLength, 44 + 3 + 1);
+    assert.equal(view.getUint32(4, true), view.byteLength - 8);
+    assert.deepEqual([view.getUint8(44), view.getUint8(45), view.getUint8(46), view.getUint8(47)], [0xff, 0xff, 0x7f, 0]);
+});
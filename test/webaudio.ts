@@ -0,0 +1,295 @@
+// Minimal stand-in for the Web Audio API, records connections, automation and scheduled sources.
+// Nothing is rendered, advance() moves the clock and ends the sources that have stopped.
+
+export type AutomationEvent = { type: string, value: number, time: number };
+
+export class FakeAudioParam {
+    value: number;
+    events: AutomationEvent[] = [];
+
+    constructor(value: number = 0) {
+        this.value = value;
+    }
+
+    setValueAtTime(value: number, time: number) {
+        this.events.push({ type: "set", value, time });
+        return this;
+    }
+
+    linearRampToValueAtTime(value: number, time: number) {
+        this.events.push({ type: "linear", value, time });
+        return this;
+    }
+
+    exponentialRampToValueAtTime(value: number, time: number) {
+        this.events.push({ type: "exponential", value, time });
+        return this;
+    }
+
+    setTargetAtTime(value: number, time: number, _timeConstant: number) {
+        this.events.push({ type: "target", value, time });
+        return this;
+    }
+
+    setValueCurveAtTime(values: ArrayLike<number>, time: number, duration: number) {
+        this.events.push({ type: "curve", value: values[values.length - 1], time: time + duration });
+        return this;
+    }
+
+    cancelScheduledValues(time: number) {
+        this.events = this.events.filter(event => event.time < time);
+        return this;
+    }
+
+    cancelAndHoldAtTime(time: number) {
+        return this.cancelScheduledValues(time);
+    }
+
+    /** Value of the last automation event at or before a time, ramps are taken at their end. */
+    valueAt(time: number): number {
+        let value = this.value;
+        for (const event of this.events) {
+            if (event.time <= time) value = event.value;
+        }
+        return value;
+    }
+}
+
+export class FakeAudioNode {
+    readonly context: FakeAudioContext;
+    outputs = new Set<FakeAudioNode | FakeAudioParam>();
+
+    constructor(context: FakeAudioContext) {
+        this.context = context;
+    }
+
+    connect(target: FakeAudioNode | FakeAudioParam) {
+        this.outputs.add(target);
+        return target;
+    }
+
+    disconnect(target?: FakeAudioNode | FakeAudioParam) {
+        if (target === undefined || typeof target === "number") {
+            this.outputs.clear();
+        } else if (!this.outputs.delete(target)) {
+            // Like browsers, disconnecting something that is not connected throws
+            throw new Error("InvalidAccessError: not connected");
+        }
+    }
+}
+
+export class FakeGainNode extends FakeAudioNode {
+    gain = new FakeAudioParam(1);
+}
+
+export class FakeScheduledSourceNode extends FakeAudioNode {
+    startTime?: number;
+    stopTime?: number;
+    ended = false;
+    onended: (() => void) | null = null;
+
+    start(when: number = 0) {
+        this.startTime = when;
+    }
+
+    stop(when: number = 0) {
+        this.stopTime = Math.max(when, this.context.currentTime);
+        this.context.stopping.add(this);
+    }
+}
+
+export class FakeConstantSourceNode extends FakeScheduledSourceNode {
+    offset = new FakeAudioParam(1);
+}
+
+export class FakeOscillatorNode extends FakeScheduledSourceNode {
+    type = "sine";
+    frequency = new FakeAudioParam(440);
+    detune = new FakeAudioParam(0);
+    wave?: object;
+
+    setPeriodicWave(wave: object) {
+        this.type = "custom";
+        this.wave = wave;
+    }
+}
+
+export class FakeAudioBufferSourceNode extends FakeScheduledSourceNode {
+    buffer: FakeAudioBuffer | null;
+    loop: boolean;
+    playbackRate = new FakeAudioParam(1);
+
+    constructor(context: FakeAudioContext, options: { buffer?: FakeAudioBuffer, loop?: boolean } = {}) {
+        super(context);
+        this.buffer = options.buffer ?? null;
+        this.loop = options.loop ?? false;
+    }
+}
+
+export class FakeBiquadFilterNode extends FakeAudioNode {
+    type = "lowpass";
+    frequency = new FakeAudioParam(350);
+    detune = new FakeAudioParam(0);
+    Q = new FakeAudioParam(1);
+    gain = new FakeAudioParam(0);
+}
+
+export class FakeDelayNode extends FakeAudioNode {
+    delayTime = new FakeAudioParam(0);
+}
+
+export class FakeStereoPannerNode extends FakeAudioNode {
+    pan = new FakeAudioParam(0);
+}
+
+export class FakeDynamicsCompressorNode extends FakeAudioNode {
+    threshold = new FakeAudioParam(-24);
+    knee = new FakeAudioParam(30);
+    ratio = new FakeAudioParam(12);
+    attack = new FakeAudioParam(0.003);
+    release = new FakeAudioParam(0.25);
+    reduction = 0;
+}
+
+export class FakeConvolverNode extends FakeAudioNode {
+    buffer: FakeAudioBuffer | null = null;
+    normalize = true;
+}
+
+export class FakeWaveShaperNode extends FakeAudioNode {
+    curve: Float32Array | null;
+    oversample: string;
+
+    constructor(context: FakeAudioContext, options: { curve?: Float32Array, oversample?: string } = {}) {
+        super(context);
+        this.curve = options.curve ?? null;
+        this.oversample = options.oversample ?? "none";
+    }
+}
+
+export class FakeAudioWorkletNode extends FakeAudioNode {
+    readonly name: string;
+    readonly options: any;
+    parameters = new Map<string, FakeAudioParam>();
+    messages: any[] = [];
+    port = { postMessage: (message: any) => this.messages.push(message) };
+
+    constructor(context: FakeAudioContext, name: string, options: any = {}) {
+        super(context);
+        this.name = name;
+        this.options = options;
+        for (const parameter of ["frequency", "detune", "pwm", "factor"]) {
+            this.parameters.set(parameter, new FakeAudioParam(0));
+        }
+    }
+}
+
+export class FakeAudioBuffer {
+    readonly numberOfChannels: number;
+    readonly length: number;
+    readonly sampleRate: number;
+    private channels: Float32Array[];
+
+    constructor(numberOfChannels: number, length: number, sampleRate: number) {
+        this.numberOfChannels = numberOfChannels;
+        this.length = length;
+        this.sampleRate = sampleRate;
+        this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+    }
+
+    get duration(): number {
+        return this.length / this.sampleRate;
+    }
+
+    getChannelData(channel: number): Float32Array {
+        return this.channels[channel];
+    }
+}
+
+export class FakeAudioContext {
+    currentTime = 0;
+    readonly sampleRate: number;
+    readonly destination: FakeAudioNode;
+    readonly stopping = new Set<FakeScheduledSourceNode>();
+    /** Loading worklet modules fails unless this is set. */
+    workletAvailable = false;
+    readonly audioWorklet = {
+        addModule: (_url: string) => this.workletAvailable ? Promise.resolve() : Promise.reject(new Error("AudioWorklet is not available"))
+    };
+
+    constructor(sampleRate: number = 48000) {
+        this.sampleRate = sampleRate;
+        this.destination = new FakeAudioNode(this);
+    }
+
+    /** Move the clock forward, sources that have stopped by then end. */
+    advance(time: number) {
+        this.currentTime = time;
+        for (const source of [...this.stopping]) {
+            if (source.stopTime! <= time) {
+                this.stopping.delete(source);
+                source.ended = true;
+                source.onended?.();
+            }
+        }
+    }
+
+    createGain() { return new FakeGainNode(this); }
+    createConstantSource() { return new FakeConstantSourceNode(this); }
+    createOscillator() { return new FakeOscillatorNode(this); }
+    createBiquadFilter() { return new FakeBiquadFilterNode(this); }
+    createDelay(_maxDelayTime?: number) { return new FakeDelayNode(this); }
+    createStereoPanner() { return new FakeStereoPannerNode(this); }
+    createDynamicsCompressor() { return new FakeDynamicsCompressorNode(this); }
+    createConvolver() { return new FakeConvolverNode(this); }
+    createChannelSplitter(_outputs?: number) { return new FakeAudioNode(this); }
+    createChannelMerger(_inputs?: number) { return new FakeAudioNode(this); }
+    createBuffer(numberOfChannels: number, length: number, sampleRate: number) { return new FakeAudioBuffer(numberOfChannels, length, sampleRate); }
+    createPeriodicWave(real: ArrayLike<number>, imag: ArrayLike<number>, _options?: object) { return { real, imag }; }
+}
+
+/** Fake offline context, rendering runs the clock to the end and resolves to a silent buffer. */
+export class FakeOfflineAudioContext extends FakeAudioContext {
+    readonly numberOfChannels: number;
+    readonly length: number;
+    private suspensions = new Map<number, () => void>();
+
+    constructor(numberOfChannels: number, length: number, sampleRate: number) {
+        super(sampleRate);
+        this.numberOfChannels = numberOfChannels;
+        this.length = length;
+    }
+
+    suspend(time: number): Promise<void> {
+        return new Promise(resolve => this.suspensions.set(time, resolve));
+    }
+
+    resume(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    async startRendering(): Promise<FakeAudioBuffer> {
+        const duration = this.length / this.sampleRate;
+        while (this.suspensions.size > 0) {
+            // Suspensions may be added while suspended
+            const time = Math.min(...this.suspensions.keys());
+            this.advance(time);
+            const resolve = this.suspensions.get(time)!;
+            this.suspensions.delete(time);
+            resolve();
+            // Let the suspension handler schedule and resume
+            await new Promise(resolve => setImmediate(resolve));
+        }
+        this.advance(duration);
+        return new FakeAudioBuffer(this.numberOfChannels, this.length, this.sampleRate);
+    }
+}
+
+/** Install the node constructors the synth creates with `new`. */
+export function installWebAudio() {
+    Object.assign(globalThis, {
+        WaveShaperNode: FakeWaveShaperNode,
+        AudioBufferSourceNode: FakeAudioBufferSourceNode,
+        AudioWorkletNode: FakeAudioWorkletNode
+    });
+}
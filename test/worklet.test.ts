@@ -0,0 +1,80 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import vm from "node:vm";
+import { engineProcessorCode, engineProcessorName } from "../src/worklet";
+import { Engine, Mode, PhaseMode, Synth } from "../src/synth";
+import { FakeAudioContext, FakeAudioWorkletNode, installWebAudio } from "./webaudio";
+
+installWebAudio();
+
+const sampleRate = 48000;
+const frequencies = Array.from({ length: 128 }, (_, noteNumber) => 440 * Math.pow(2, (noteNumber - 69) / 12));
+
+// Evaluate the processor code in a fresh context like an AudioWorkletGlobalScope, returns the registered processors
+function loadProcessorCode(): Map<string, any> {
+    const processors = new Map<string, any>();
+    const scope = vm.createContext({
+        sampleRate,
+        currentTime: 0,
+        Float32Array,
+        Math,
+        registerProcessor: (name: string, processor: any) => processors.set(name, processor)
+    });
+    vm.runInContext(`
+        class AudioWorkletProcessor {
+            constructor() {
+                this.port = { onmessage: null, postMessage() {} };
+            }
+        }
+    `, scope);
+    vm.runInContext(engineProcessorCode, scope);
+    return processors;
+}
+
+test("registers a processor that renders notes from the embedded source", () => {
+    const processors = loadProcessorCode();
+    const EngineProcessor = processors.get(engineProcessorName);
+    assert.ok(EngineProcessor);
+    const preset = { ...structuredClone(Synth.defaultPreset), phase: PhaseMode.Reset };
+    const processor = new EngineProcessor({ processorOptions: { preset, frequencies } });
+    processor.port.onmessage({ data: { type: "noteOn", time: 0, noteNumber: 69, velocity: 1 } });
+    const left = new Float32Array(128);
+    const right = new Float32Array(128);
+    let peak = 0;
+    for (let block = 0; block < 10; block++) {
+        assert.equal(processor.process([], [[left, right]]), true);
+        assert.ok(left.every(sample => isFinite(sample)));
+        peak = Math.max(peak, ...left.map(Math.abs));
+    }
+    assert.ok(peak > 0);
+    processor.port.onmessage({ data: { type: "stop" } });
+    assert.equal(processor.process([], [[left, right]]), false);
+});
+
+async function createWorkletSynth(): Promise<{ synth: Synth, worklet: FakeAudioWorkletNode }> {
+    const audioCtx = new FakeAudioContext();
+    audioCtx.workletAvailable = true;
+    const synth = new Synth(audioCtx as unknown as BaseAudioContext);
+    await synth.setEngine(Engine.Worklet);
+    return { synth, worklet: (synth as any).worklet };
+}
+
+test("posts only the changed sections of a preset to the worklet engine", async () => {
+    const { synth, worklet } = await createWorkletSynth();
+    synth.applyPartialPreset({ polyphony: 4, oscillators: [{ volume: -6 }] });
+    const { preset } = worklet.messages.at(-1);
+    assert.deepEqual(Object.keys(preset).sort(), ["oscillators", "polyphony"]);
+    assert.equal(preset.oscillators[0].wavetable, undefined);
+    synth.applyPartialPreset({ oscillators: [{ wavetable: [{ harmonics: [1, 0.5] }] }] });
+    assert.ok(worklet.messages.at(-1).preset.oscillators[0].wavetable);
+});
+
+test("returns to a held key with its velocity in legato mode", async () => {
+    const { synth, worklet } = await createWorkletSynth();
+    synth.applyPartialPreset({ mode: Mode.Legato });
+    synth.noteOn(60, 0.3, 0);
+    synth.noteOn(64, 0.9, 0.1);
+    synth.noteOff(64, 0.2);
+    const noteOn = worklet.messages.filter(message => message.type === "noteOn").at(-1);
+    assert.deepEqual(noteOn, { type: "noteOn", time: 0.2, noteNumber: 60, velocity: 0.3 });
+});